@@ -0,0 +1,102 @@
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import { ALL_FILE_TYPES, type RawFileType } from "../core/file_types";
+import { normalizeStoreId } from "../core/parse/xml_utils";
+
+/**
+ * עזרים לפירוק flags של ה-CLI (node:util parseArgs, בלי תלות חיצונית).
+ * שגיאת שימוש זורקת UsageError כדי ש-smartcart.ts ידפיס usage ולא stack trace.
+ */
+
+export type UsageError = Error & { usage: true };
+
+export function usageError(msg: string): UsageError {
+  return Object.assign(new Error(msg), { usage: true as const });
+}
+
+export function isUsageError(e: unknown): e is UsageError {
+  return e instanceof Error && (e as Partial<UsageError>).usage === true;
+}
+
+export function parseFlags<O extends NonNullable<ParseArgsConfig["options"]>>(argv: string[], options: O) {
+  try {
+    return parseArgs({ args: argv, options, allowPositionals: true, strict: true });
+  } catch (e: any) {
+    throw usageError(String(e?.message ?? e));
+  }
+}
+
+// --max-downloads 20 -> 20, חסר -> fallback
+export function intFlag(value: string | undefined, name: string, fallback: number): number {
+  if (value == null) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw usageError(`--${name} must be a non-negative integer, got "${value}"`);
+  return n;
+}
+
+// --rate 0.5 -> 0.5 (מספר חיובי, לא בהכרח שלם)
+export function numFlag(value: string | undefined, name: string, fallback: number): number {
+  if (value == null) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw usageError(`--${name} must be a positive number, got "${value}"`);
+  return n;
+}
+
+// --trip-cost 0 -> 0 (כמו numFlag, אבל 0 מותר)
+export function nonNegNumFlag(value: string | undefined, name: string, fallback: number): number {
+  if (value == null) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw usageError(`--${name} must be a non-negative number, got "${value}"`);
+  return n;
+}
+
+// --types PriceFull,Promo -> ["PriceFull", "Promo"], בלי תלות ב-case
+export function fileTypesFlag(value: string | undefined, fallback: RawFileType[]): RawFileType[] {
+  if (value == null) return fallback;
+
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const t = ALL_FILE_TYPES.find((x) => x.toLowerCase() === s.toLowerCase());
+      if (!t) throw usageError(`Unknown file type "${s}" (expected ${ALL_FILE_TYPES.join(", ")})`);
+      return t;
+    });
+}
+
+// --stores 1,016 -> ["001", "016"]
+export function storeIdsFlag(value: string | undefined): string[] | undefined {
+  if (value == null) return undefined;
+
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      if (!/^\d+$/.test(s)) throw usageError(`--stores expects numeric store ids, got "${s}"`);
+      return normalizeStoreId(s);
+    });
+}
+
+// --since 2026-01-14 / "2026-01-14 06:00" / 202601140600 -> "202601140600" (שעון ישראל, כמו בשמות הקבצים)
+export function sinceFlag(value: string | undefined): string | undefined {
+  if (value == null) return undefined;
+
+  const digits = value.replace(/[-:T\s]/g, "");
+  if (!/^\d{8}(\d{4})?$/.test(digits)) {
+    throw usageError(`--since must be YYYY-MM-DD or "YYYY-MM-DD HH:MM", got "${value}"`);
+  }
+  return digits.padEnd(12, "0");
+}
+
+export function oneOf<T extends string>(value: string | undefined, name: string, allowed: readonly T[], fallback: T): T {
+  if (value == null) return fallback;
+  if (!allowed.includes(value as T)) throw usageError(`--${name} must be one of ${allowed.join(", ")}`);
+  return value as T;
+}
+
+export type Command = {
+  usage: string; // השורה שמופיעה ב-"smartcart help"
+  summary: string;
+  run: (argv: string[]) => Promise<void>;
+};
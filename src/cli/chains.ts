@@ -0,0 +1,13 @@
+import type { ChainDefinition } from "../core/chains/types";
+import type { RawFileType } from "../core/file_types";
+import { chainSlugs, getChain } from "../scrapers/registry";
+import { usageError } from "./args";
+
+export const DEFAULT_COLLECT_TYPES: RawFileType[] = ["PriceFull", "Price", "PromoFull", "Promo", "Stores"];
+
+export function chainOrThrow(slug: string | undefined): ChainDefinition {
+  if (!slug) throw usageError(`Missing <chain> (one of ${chainSlugs().join(", ")})`);
+  const chain = getChain(slug);
+  if (!chain) throw usageError(`Unknown chain "${slug}" (one of ${chainSlugs().join(", ")})`);
+  return chain;
+}
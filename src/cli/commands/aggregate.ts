@@ -0,0 +1,21 @@
+import { reposFromEnv } from "../../core/db/repos";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { intFlag, parseFlags, type Command } from "../args";
+
+export const aggregate: Command = {
+  usage: "aggregate [--days-back 2]",
+  summary: "refresh product_stats_daily for the last N days",
+
+  async run(argv) {
+    const { values } = parseFlags(argv, { "days-back": { type: "string" } });
+    const daysBack = intFlag(values["days-back"], "days-back", 2);
+
+    const repos = reposFromEnv(supabaseFromEnv());
+    try {
+      await repos.stats.refreshDaily(daysBack);
+      console.log(`Aggregation done (days back: ${daysBack})`);
+    } finally {
+      await repos.close();
+    }
+  },
+};
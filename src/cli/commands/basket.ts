@@ -0,0 +1,150 @@
+import fs from "node:fs";
+import {
+  parseBasketItem,
+  priceBasket,
+  type BasketItem,
+  type BasketLine,
+  type StoreBasket,
+} from "../../core/basket/basket";
+import { MAX_SPLIT_STORES, splitBasket, type SplitResult } from "../../core/basket/split";
+import { reposFromEnv } from "../../core/db/repos";
+import { israelTime, normalizeStoreId } from "../../core/parse/xml_utils";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { intFlag, nonNegNumFlag, parseFlags, usageError, type Command } from "../args";
+import { chainOrThrow } from "../chains";
+
+// שורה לכל פריט: "<ברקוד|שם>[=כמות]"; שורות ריקות ו-# מדולגות
+function readBasketFile(file: string): string[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith("#"));
+}
+
+// --stores: "<chain>:<store>" או מספר סניף בלבד עם --chain (מספרי הסניפים חוזרים בין רשתות); מחזיר "<chain>:<store_id>"
+function splitStoresFlag(value: string | undefined, chain: string | undefined): Set<string> | undefined {
+  if (value == null) return undefined;
+
+  const keys = value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const sep = s.indexOf(":");
+      const storeChain = sep < 0 ? chain : chainOrThrow(s.slice(0, sep)).slug;
+      const storeId = sep < 0 ? s : s.slice(sep + 1);
+      if (!storeChain) throw usageError(`--stores needs <chain>:<store> or --chain, got "${s}"`);
+      if (!/^\d+$/.test(storeId)) throw usageError(`--stores expects numeric store ids, got "${s}"`);
+      return `${storeChain}:${normalizeStoreId(storeId)}`;
+    });
+  return new Set(keys);
+}
+
+function printLine(l: BasketLine) {
+  const qty = l.is_weighted ? `${l.quantity}kg` : `x${l.quantity}`;
+  const via = l.match === "product" ? "" : ` [${l.match}]`;
+  const promo = l.promotion_id ? ` {${l.promotion_id}}` : "";
+  console.log(
+    `       ${l.line_total.toFixed(2).padStart(8)}  ${qty} @ ${l.unit_price}  ${l.item_name} (${l.item_code})${via}${promo}`
+  );
+}
+
+function printStore(rank: number, s: StoreBasket, withLines: boolean) {
+  const name = s.store_name ? ` ${s.store_name}` : "";
+  const missing = s.missing.length ? `  missing ${s.missing.length}: ${s.missing.join(", ")}` : "";
+  const saved = s.total < s.regular_total ? ` (regular ${s.regular_total.toFixed(2)})` : "";
+  console.log(
+    `${String(rank).padStart(3)}. ${s.chain} ${s.store_id}${name}  total ${s.total.toFixed(2)}${saved}${missing}`
+  );
+  if (!withLines) return;
+  for (const l of s.lines) printLine(l);
+  for (const p of s.promotions) {
+    const club = p.club_only ? " [club]" : "";
+    console.log(
+      `       -${p.saving.toFixed(2).padStart(7)}  {${p.promotion_id}} ${p.description ?? p.kind}${club}: ${p.item_codes.join(", ")}`
+    );
+  }
+}
+
+function printSplit(r: SplitResult) {
+  const trips = r.best.trip_cost ? ` + trips ${r.best.trip_cost.toFixed(2)}` : "";
+  const missing = r.best.missing.length ? `  missing ${r.best.missing.length}: ${r.best.missing.join(", ")}` : "";
+  console.log(`split into ${r.best.stops.length}: total ${r.best.total.toFixed(2)}${trips}${missing}`);
+  for (const s of r.best.stops) {
+    console.log(`  ${s.chain} ${s.store_id}${s.store_name ? ` ${s.store_name}` : ""}  ${s.total.toFixed(2)}`);
+    for (const l of s.lines) printLine(l);
+  }
+  const single = r.single.stops[0];
+  console.log(
+    `best single store: ${single.chain} ${single.store_id} total ${r.single.total.toFixed(2)}` +
+      (r.single.missing.length ? ` (missing ${r.single.missing.length})` : "") +
+      (r.saving != null
+        ? `; saving ${r.saving.toFixed(2)}`
+        : `; saving n/a, only the split covers ${r.uncovered.join(", ")}`)
+  );
+}
+
+export const basket: Command = {
+  usage:
+    "basket <barcode|name>[=qty]... [--file list.txt] [--chain <chain>] [--top 10] [--lines] [--regular | --club] [--split 2 [--trip-cost 15] [--stores <chain>:1,<chain>:016]]",
+  summary:
+    "price a shopping list at every store with its active promotions and rank the stores by total (weighted items by kg); --split finds the cheapest split between up to 3 of the top stores",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, {
+      file: { type: "string" },
+      chain: { type: "string" },
+      top: { type: "string" },
+      lines: { type: "boolean" },
+      regular: { type: "boolean" }, // מחירי מדף, בלי מבצעים
+      club: { type: "boolean" }, // כולל מבצעי מועדון
+      split: { type: "string" }, // מספר הסניפים המקסימלי
+      "trip-cost": { type: "string" },
+      stores: { type: "string" }, // הסניפים המועמדים לחלוקה (<chain>:<store>); ברירת מחדל: top הראשונים
+    });
+    if (values.regular && values.club) throw usageError("--regular and --club are mutually exclusive");
+    const chain = values.chain ? chainOrThrow(values.chain).slug : undefined;
+    const top = intFlag(values.top, "top", 10);
+    const split = intFlag(values.split, "split", 0);
+    if (values.split != null && (split < 1 || split > MAX_SPLIT_STORES)) {
+      throw usageError(`--split must be between 1 and ${MAX_SPLIT_STORES}, got "${values.split}"`);
+    }
+    const tripCost = nonNegNumFlag(values["trip-cost"], "trip-cost", 0);
+    const storeKeys = splitStoresFlag(values.stores, chain);
+
+    const texts = [...(values.file ? readBasketFile(values.file) : []), ...positionals];
+    if (!texts.length) throw usageError("Empty basket: pass items or --file");
+    const items: BasketItem[] = texts.map((t) => {
+      const item = parseBasketItem(t);
+      if (!item) throw usageError(`Bad basket item "${t}" (expected <barcode|name>[=qty])`);
+      return item;
+    });
+
+    const repos = reposFromEnv(supabaseFromEnv());
+    try {
+      const promotions = values.regular ? undefined : { at: israelTime(), includeClub: !!values.club };
+      const stores = await priceBasket(repos, items, { chain, promotions });
+      if (!stores.length) {
+        console.log("No store has any of the items");
+        return;
+      }
+
+      if (split) {
+        const candidates = storeKeys
+          ? stores.filter((s) => storeKeys.has(`${s.chain}:${s.store_id}`))
+          : stores.slice(0, top);
+        const result = splitBasket(items, candidates, { maxStores: split, tripCost });
+        if (result) printSplit(result);
+        else console.log("None of the --stores has any of the items");
+        return;
+      }
+
+      // השורות תמיד לסניף הראשון, ולכולם עם --lines
+      stores.slice(0, top).forEach((s, i) => printStore(i + 1, s, i === 0 || !!values.lines));
+      console.log(`${stores.length} stores priced`);
+    } finally {
+      await repos.close();
+    }
+  },
+};
@@ -0,0 +1,37 @@
+import { DEFAULT_SCHEDULER } from "../../core/collect/scheduler";
+import { DEFAULT_BUCKET } from "../../core/storage/raw_file_store";
+import { fileTypesFlag, intFlag, numFlag, parseFlags, sinceFlag, storeIdsFlag, type Command } from "../args";
+import { chainOrThrow, DEFAULT_COLLECT_TYPES } from "../chains";
+
+export const collect: Command = {
+  usage:
+    "collect <chain> [--types PriceFull,Price,PromoFull,Promo,Stores] [--max-pages 50] [--max-downloads 50] [--concurrency 4] [--rate 2] [--stores 1,16] [--since 2026-01-14] [--bucket raw-prices]",
+  summary: "download new files from the chain's portal into the raw store + raw_files",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, {
+      types: { type: "string" },
+      "max-pages": { type: "string" },
+      "max-downloads": { type: "string" },
+      concurrency: { type: "string" },
+      rate: { type: "string" },
+      stores: { type: "string" },
+      since: { type: "string" },
+      bucket: { type: "string" },
+    });
+    const chain = chainOrThrow(positionals[0]);
+
+    const out = await chain.collect({
+      bucket: values.bucket ?? process.env.RAW_BUCKET ?? DEFAULT_BUCKET,
+      maxPages: intFlag(values["max-pages"], "max-pages", 50),
+      maxDownloads: intFlag(values["max-downloads"], "max-downloads", 50),
+      concurrency: intFlag(values.concurrency, "concurrency", DEFAULT_SCHEDULER.concurrency),
+      ratePerHost: numFlag(values.rate, "rate", DEFAULT_SCHEDULER.ratePerHost),
+      fileTypes: fileTypesFlag(values.types, DEFAULT_COLLECT_TYPES),
+      storeIds: storeIdsFlag(values.stores),
+      since: sinceFlag(values.since),
+    });
+
+    console.log(`${chain.slug}: downloaded=${out.downloaded}`);
+  },
+};
@@ -0,0 +1,87 @@
+import { reposFromEnv } from "../../core/db/repos";
+import { classifyItemCode } from "../../core/products/gtin";
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  DEFAULT_REVIEW_BELOW,
+  DEFAULT_TOP,
+  decideMatch,
+  refreshMatchCandidates,
+} from "../../core/products/matches";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { CHAINS } from "../../scrapers/registry";
+import { intFlag, numFlag, oneOf, parseFlags, usageError, type Command } from "../args";
+import { chainOrThrow } from "../chains";
+
+const ACTIONS = ["review", "score", "confirm", "reject", "list"] as const;
+
+export const matches: Command = {
+  usage:
+    "matches score [<chain>] [--min 0.5] [--top 3] | matches review [<chain>] [--below 0.9] [--limit 50] | matches confirm|reject <chain> <item_code> <product_id> [--note text] | matches list [<chain>] [--limit 50]",
+  summary:
+    "score name-similarity matches between chains, review the low-confidence ones and confirm (link) or reject (unlink) them",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, {
+      below: { type: "string" },
+      min: { type: "string" },
+      top: { type: "string" },
+      limit: { type: "string" },
+      note: { type: "string" },
+    });
+    const action = oneOf(positionals[0], "action", ACTIONS, "review");
+    const chain = positionals[1] ? chainOrThrow(positionals[1]).slug : undefined;
+    const below = numFlag(values.below, "below", DEFAULT_REVIEW_BELOW);
+    const min = numFlag(values.min, "min", DEFAULT_MIN_CONFIDENCE);
+    const top = intFlag(values.top, "top", DEFAULT_TOP);
+    const limit = intFlag(values.limit, "limit", 50);
+
+    const repos = reposFromEnv(supabaseFromEnv());
+    try {
+      if (action === "score") {
+        for (const slug of chain ? [chain] : CHAINS.map((c) => c.slug)) {
+          const saved = await refreshMatchCandidates(repos, { chain: slug, min, top });
+          console.log(`${slug}: ${saved} candidates (min ${min}, top ${top})`);
+        }
+        return;
+      }
+
+      if (action === "review") {
+        const candidates = await repos.matches.candidates({ chain, below, limit });
+        for (const c of candidates) {
+          console.log(`${Number(c.confidence).toFixed(2)}  #${c.rank} ${c.chain} ${c.item_code}  ${c.item_name}`);
+          console.log(`      -> ${c.product_id}  ${c.product_name}  (${c.detail})`);
+        }
+        console.log(`${candidates.length} candidates below ${below}`);
+        return;
+      }
+
+      if (action === "list") {
+        for (const m of await repos.matches.list({ chain, limit })) {
+          const note = m.note ? `  (${m.note})` : "";
+          console.log(`${m.decided_at}  ${m.decision.padEnd(6)} ${m.chain} ${m.item_code} -> ${m.product_id}${note}`);
+        }
+        return;
+      }
+
+      const [itemCode, productCode] = positionals.slice(2);
+      if (!chain || !itemCode || !productCode) throw usageError(`Usage: ${matches.usage}`);
+      const info = classifyItemCode(productCode);
+      if (info.kind !== "gtin") throw usageError(`"${productCode}" is not a valid product id (${info.kind})`);
+
+      const product = await repos.products.getById(info.gtin);
+      if (!product) throw new Error(`Product ${info.gtin} not found`);
+
+      const decision = action === "confirm" ? "link" : "unlink";
+      const changed = await decideMatch(repos, {
+        chain,
+        item_code: itemCode,
+        product_id: product.id,
+        decision,
+        note: values.note ?? null,
+      });
+      console.log(`${decision} ${chain} ${itemCode} -> ${product.id} ${product.name}: ${changed} current rows updated`);
+    } finally {
+      await repos.close();
+    }
+  },
+};
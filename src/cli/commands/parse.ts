@@ -0,0 +1,32 @@
+import { PARSE_KINDS, runChainParser, type ParseKind } from "../../core/pipeline/orchestrator";
+import { DEFAULT_PARSE_LIMIT, type ParseOptions } from "../../core/parse/run_parser";
+import { intFlag, oneOf, parseFlags, type Command } from "../args";
+import { chainOrThrow } from "../chains";
+
+const KINDS = ["all", ...PARSE_KINDS] as const;
+
+export const parse: Command = {
+  usage: `parse <chain> [--kind ${KINDS.join("|")}] [--limit ${DEFAULT_PARSE_LIMIT}]`,
+  summary: "parse downloaded raw files into prices / promotions / stores",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, {
+      kind: { type: "string" },
+      limit: { type: "string" },
+    });
+    const chain = chainOrThrow(positionals[0]);
+    const kind = oneOf(values.kind, "kind", KINDS, "all");
+    const opts: ParseOptions = { limit: intFlag(values.limit, "limit", DEFAULT_PARSE_LIMIT) };
+
+    const kinds: ParseKind[] = kind === "all" ? PARSE_KINDS : [kind];
+    const results: string[] = [];
+
+    for (const k of kinds) {
+      console.log(`\n=== PARSE ${k} (${chain.slug}) ===`);
+      const r = await runChainParser(chain, k, opts);
+      results.push(`${k}: parsed=${r.parsed} failed=${r.failed}`);
+    }
+
+    console.log(`\n${chain.slug}: ${results.join(", ")}`);
+  },
+};
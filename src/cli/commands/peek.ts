@@ -0,0 +1,39 @@
+import { reposFromEnv } from "../../core/db/repos";
+import { xmlTextStream } from "../../core/parse/xml_stream";
+import { rawFileStoreFromEnv } from "../../core/storage/raw_file_store";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { intFlag, parseFlags, usageError, type Command } from "../args";
+
+export const peek: Command = {
+  usage: "peek <raw_file_id> [--chars 800]",
+  summary: "show a raw_files row and the head of its (decompressed) XML",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, { chars: { type: "string" } });
+    const id = positionals[0];
+    if (!id) throw usageError("Missing <raw_file_id>");
+    const chars = intFlag(values.chars, "chars", 800);
+
+    const supabase = supabaseFromEnv();
+    const repos = reposFromEnv(supabase);
+    try {
+      const f = await repos.rawFiles.getById(id);
+      if (!f) throw new Error(`raw_files ${id} not found`);
+
+      for (const [k, v] of Object.entries(f)) console.log(`${k.padEnd(13)} ${v ?? ""}`);
+      if (!f.storage_path || !chars) return;
+
+      // קוראים רק עד שיש מספיק תווים; הזרם נסגר ב-break
+      const store = rawFileStoreFromEnv(supabase);
+      let head = "";
+      for await (const text of xmlTextStream(await store.stream(f.storage_path), { allowPlainXml: true })) {
+        head += text;
+        if (head.length >= chars) break;
+      }
+
+      console.log(`\nXML HEAD:\n${head.slice(0, chars)}`);
+    } finally {
+      await repos.close();
+    }
+  },
+};
@@ -0,0 +1,53 @@
+import { reposFromEnv } from "../../core/db/repos";
+import type { CurrentPriceRow } from "../../core/db/types";
+import { classifyItemCode } from "../../core/products/gtin";
+import { DEFAULT_REVIEW_BELOW } from "../../core/products/matches";
+import { backfillProductLinks } from "../../core/products/products";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { intFlag, parseFlags, usageError, type Command } from "../args";
+
+function printPrice(p: CurrentPriceRow) {
+  const perUnit = p.price_per_base_unit != null ? ` (${p.price_per_base_unit}/${p.base_unit})` : "";
+  console.log(`  ${p.chain.padEnd(10)} ${String(p.store_id).padEnd(5)} ${p.price}${perUnit}  ${p.item_name}`);
+}
+
+export const products: Command = {
+  usage: "products <barcode> | products --backfill [--batch 1000]",
+  summary: "show a product's current price at every chain and store, or link prices rows from before products",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, {
+      backfill: { type: "boolean" },
+      batch: { type: "string" },
+    });
+    const batch = intFlag(values.batch, "batch", 1000);
+    if (!values.backfill && !positionals[0]) throw usageError("Missing <barcode> (or --backfill)");
+
+    const repos = reposFromEnv(supabaseFromEnv());
+    try {
+      if (values.backfill) {
+        const linked = await backfillProductLinks(repos, batch);
+        console.log(`Backfill done: ${linked} item codes linked`);
+        return;
+      }
+
+      const info = classifyItemCode(positionals[0]);
+      if (info.kind !== "gtin") throw usageError(`"${positionals[0]}" is not a valid barcode (${info.kind})`);
+
+      const product = await repos.products.getById(info.gtin);
+      if (!product) throw new Error(`Product ${info.gtin} not found`);
+      console.log(`${product.id} (${product.gtin_format}) ${product.name}`);
+
+      for (const p of await repos.prices.listCurrentByProduct(product.id)) printPrice(p);
+
+      // פריטים בלי ברקוד שדומים למוצר (smartcart matches score) ועוד לא אושרו
+      const likely = await repos.matches.candidates({ productId: product.id, min: DEFAULT_REVIEW_BELOW, limit: 20 });
+      for (const c of likely) {
+        console.log(`likely match ${Number(c.confidence).toFixed(2)}: ${c.chain} ${c.item_code} (${c.detail})`);
+        for (const p of await repos.prices.listCurrentByItem(c.chain, c.item_code)) printPrice(p);
+      }
+    } finally {
+      await repos.close();
+    }
+  },
+};
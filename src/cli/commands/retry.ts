@@ -0,0 +1,52 @@
+import { reposFromEnv } from "../../core/db/repos";
+import { PARSE_KINDS, runChainParser } from "../../core/pipeline/orchestrator";
+import { requeueParseFailures, reviveDeadFiles } from "../../core/retry";
+import { rawFileStoreFromEnv } from "../../core/storage/raw_file_store";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { CHAINS } from "../../scrapers/registry";
+import { intFlag, parseFlags, type Command } from "../args";
+import { chainOrThrow } from "../chains";
+
+export const retry: Command = {
+  usage: "retry [<chain>...] [--limit 100] [--dead]",
+  summary: "requeue failed files whose next_retry_at passed and parse them (--dead: also revive dead-lettered files)",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, {
+      limit: { type: "string" },
+      dead: { type: "boolean" },
+    });
+    const chains = positionals.length ? positionals.map(chainOrThrow) : CHAINS;
+    const limit = intFlag(values.limit, "limit", 100);
+
+    const supabase = supabaseFromEnv();
+    const repos = reposFromEnv(supabase);
+    try {
+      const store = rawFileStoreFromEnv(supabase);
+
+      for (const chain of chains) {
+        const revived = values.dead ? await reviveDeadFiles(repos, chain.slug, limit) : 0;
+        const requeued = await requeueParseFailures(repos, chain.slug, limit);
+        // כשלונות הורדה חוזרים דרך ה-collector, שמוריד שוב URL שהגיע זמנו
+        const collectDue = await repos.rawFiles.listRetryable({
+          chain: chain.slug,
+          step: "collect",
+          now: new Date().toISOString(),
+          limit,
+        });
+
+        console.log(
+          `\n${chain.slug}: revived=${revived} requeued=${requeued} collect retries due=${collectDue.length} (next collect)`
+        );
+        if (!requeued) continue;
+
+        for (const kind of PARSE_KINDS) {
+          const r = await runChainParser(chain, kind, { limit, store, repos });
+          console.log(`${chain.slug}: ${kind}: parsed=${r.parsed} failed=${r.failed}`);
+        }
+      }
+    } finally {
+      await repos.close();
+    }
+  },
+};
@@ -0,0 +1,70 @@
+import { DEFAULT_SCHEDULER } from "../../core/collect/scheduler";
+import { ALL_STEPS, PARSE_KINDS, runPipeline, type PipelineStep } from "../../core/pipeline/orchestrator";
+import { DEFAULT_PARSE_LIMIT } from "../../core/parse/run_parser";
+import { DEFAULT_BUCKET } from "../../core/storage/raw_file_store";
+import { CHAINS } from "../../scrapers/registry";
+import { fileTypesFlag, intFlag, numFlag, parseFlags, sinceFlag, usageError, type Command } from "../args";
+import { chainOrThrow, DEFAULT_COLLECT_TYPES } from "../chains";
+
+function stepsFlag(value: string | undefined): PipelineStep[] {
+  if (value == null) return [];
+  return value.split(",").map((s) => {
+    const step = ALL_STEPS.find((x) => x === s.trim());
+    if (!step) throw usageError(`Unknown step "${s}" (expected ${ALL_STEPS.join(", ")})`);
+    return step;
+  });
+}
+
+export const run: Command = {
+  usage:
+    "run [<chain>...] [--skip collect,parse,aggregate] [--types ...] [--max-pages 50] [--max-downloads 50] [--concurrency 4] [--rate 2] [--since ...] [--limit 50] [--days-back 2]",
+  summary: "full pipeline (collect -> parse -> aggregate) for the given chains, default: all",
+
+  async run(argv) {
+    const { values, positionals } = parseFlags(argv, {
+      skip: { type: "string" },
+      types: { type: "string" },
+      "max-pages": { type: "string" },
+      "max-downloads": { type: "string" },
+      concurrency: { type: "string" },
+      rate: { type: "string" },
+      since: { type: "string" },
+      bucket: { type: "string" },
+      limit: { type: "string" },
+      "days-back": { type: "string" },
+    });
+
+    const chains = positionals.length ? positionals.map(chainOrThrow) : CHAINS;
+    const skip = stepsFlag(values.skip);
+
+    const result = await runPipeline(chains, {
+      steps: ALL_STEPS.filter((s) => !skip.includes(s)),
+      collect: {
+        bucket: values.bucket ?? process.env.RAW_BUCKET ?? DEFAULT_BUCKET,
+        maxPages: intFlag(values["max-pages"], "max-pages", 50),
+        maxDownloads: intFlag(values["max-downloads"], "max-downloads", 50),
+        concurrency: intFlag(values.concurrency, "concurrency", DEFAULT_SCHEDULER.concurrency),
+        ratePerHost: numFlag(values.rate, "rate", DEFAULT_SCHEDULER.ratePerHost),
+        fileTypes: fileTypesFlag(values.types, DEFAULT_COLLECT_TYPES),
+        since: sinceFlag(values.since),
+      },
+      parse: { limit: intFlag(values.limit, "limit", DEFAULT_PARSE_LIMIT) },
+      daysBack: intFlag(values["days-back"], "days-back", 2),
+    });
+
+    console.log("\n=== SUMMARY ===");
+    for (const r of result.chains) {
+      const parsed = PARSE_KINDS.filter((k) => r.parsed[k])
+        .map((k) => `${k} ${r.parsed[k]!.parsed}/${r.parsed[k]!.failed}`)
+        .join(", ");
+      console.log(
+        `${r.chain}: downloaded=${r.collected?.downloaded ?? "-"} parsed(ok/failed)=[${parsed}] ${(r.durationMs / 1000).toFixed(1)}s`
+      );
+      for (const e of r.errors) console.log(`  [ERROR] ${e}`);
+    }
+    const agg = result.aggregate;
+    console.log(`aggregate: ${typeof agg === "string" ? agg : `failed (${agg.error})`}`);
+
+    if (result.chains.some((r) => r.errors.length)) process.exitCode = 1;
+  },
+};
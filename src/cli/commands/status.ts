@@ -0,0 +1,48 @@
+import { reposFromEnv } from "../../core/db/repos";
+import { RAW_FILE_STATUSES } from "../../core/db/types";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { intFlag, parseFlags, type Command } from "../args";
+import { chainSlugs } from "../../scrapers/registry";
+import { chainOrThrow } from "../chains";
+
+export const status: Command = {
+  usage: "status [--chain <chain>] [--failures 5]",
+  summary: "raw_files counts per status, last stored file, last stats day, recent failures and dead files",
+
+  async run(argv) {
+    const { values } = parseFlags(argv, {
+      chain: { type: "string" },
+      failures: { type: "string" },
+    });
+    const slugs = values.chain ? [chainOrThrow(values.chain).slug] : chainSlugs();
+    const failures = intFlag(values.failures, "failures", 5);
+
+    const repos = reposFromEnv(supabaseFromEnv());
+    try {
+      console.log(`backend: ${repos.backend}`);
+
+      for (const chain of slugs) {
+        const counts = await repos.rawFiles.countByStatus(chain);
+        const last = await repos.rawFiles.latestByPath(chain, "%");
+        const [stats] = await repos.stats.listDaily({ chain, limit: 1 });
+
+        console.log(`\n${chain}`);
+        console.log(`  raw_files  ${RAW_FILE_STATUSES.map((s) => `${s}=${counts[s]}`).join(" ")}`);
+        console.log(`  last file  ${last ? `${last.fetched_at} ${last.storage_path}` : "-"}`);
+        console.log(`  last stats ${stats?.day ?? "-"}`);
+
+        if (!failures) continue;
+        for (const f of await repos.rawFiles.listByStatus({ chain, status: "failed", limit: failures })) {
+          const retry = `attempt ${f.attempts}, next ${f.next_retry_at ?? "-"}`;
+          console.log(`  failed     ${f.fetched_at} ${f.id} ${f.storage_path ?? f.file_url}: ${f.error ?? ""}`);
+          console.log(`             ${f.failed_step ?? "?"} ${retry}`);
+        }
+        for (const f of await repos.rawFiles.listByStatus({ chain, status: "dead", limit: failures })) {
+          console.log(`  dead       ${f.fetched_at} ${f.id} ${f.storage_path ?? f.file_url}: ${f.error ?? ""}`);
+        }
+      }
+    } finally {
+      await repos.close();
+    }
+  },
+};
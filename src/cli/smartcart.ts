@@ -0,0 +1,73 @@
+import "dotenv/config";
+import { isUsageError, usageError, type Command } from "./args";
+import { aggregate } from "./commands/aggregate";
+import { basket } from "./commands/basket";
+import { collect } from "./commands/collect";
+import { matches } from "./commands/matches";
+import { parse } from "./commands/parse";
+import { peek } from "./commands/peek";
+import { products } from "./commands/products";
+import { retry } from "./commands/retry";
+import { run } from "./commands/run";
+import { status } from "./commands/status";
+
+/**
+ * smartcart: CLI אחד לכל שלבי ה-pipeline.
+ *
+ *   npx tsx src/cli/smartcart.ts <command> [args] [--flags]
+ *
+ * ה-backends נבחרים מה-env כמו בכל מקום אחר (DB_BACKEND, RAW_STORE, SUPABASE_*), ה-flags רק משנים את הריצה.
+ */
+
+const COMMANDS: Record<string, Command> = {
+  run,
+  collect,
+  parse,
+  retry,
+  aggregate,
+  products,
+  matches,
+  basket,
+  peek,
+  status,
+};
+
+function printUsage() {
+  console.log("usage: smartcart <command> [args]\n");
+  for (const c of Object.values(COMMANDS)) console.log(`  ${c.usage}\n      ${c.summary}`);
+}
+
+async function main() {
+  const [name, ...argv] = process.argv.slice(2);
+
+  if (!name || name === "help" || name === "--help" || name === "-h") {
+    printUsage();
+    return;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) throw usageError(`Unknown command "${name}"`);
+
+  if (argv.includes("--help") || argv.includes("-h")) {
+    console.log(`usage: smartcart ${command.usage}`);
+    return;
+  }
+
+  try {
+    await command.run(argv);
+  } catch (e) {
+    if (!isUsageError(e)) throw e;
+    console.error(`${e.message}\nusage: smartcart ${command.usage}`);
+    process.exit(2);
+  }
+}
+
+main().catch((e) => {
+  if (isUsageError(e)) {
+    console.error(`${e.message}\n`);
+    printUsage();
+    process.exit(2);
+  }
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,215 @@
+import type { Repos } from "../db/repos";
+import type { CurrentPriceRow } from "../parse/current_prices";
+import type { PromotionRow } from "../parse/promo_parser";
+import { canonicalizeName } from "../products/canonical";
+import { classifyItemCode } from "../products/gtin";
+import { DEFAULT_REVIEW_BELOW } from "../products/matches";
+import { keyTokens } from "../products/similarity";
+import { applyPromotions, type AppliedPromotion } from "./promotions";
+
+/**
+ * מחיר סל קניות בכל סניף של כל רשת, מתוך current_prices.
+ * פריט בסל הוא ברקוד / product id (כל הפריטים שמקושרים למוצר, ופריטים בלי ברקוד שדומים לו מעל
+ * DEFAULT_REVIEW_BELOW, ראה matches.ts) או טקסט חופשי (פריטים שה-canonical_key שלהם מכיל את כל המילים,
+ * ולפחות NAME_MIN_COVERAGE מהמילים שלו הן מהשאילתה; "חלב" לא מתאים ל"מטבעות שוקולד חלב").
+ * בכל סניף נבחר לכל שורה הפריט המתאים ביותר, ובין שווים הזול ביותר. סניף בלי התאמה כזו חסר את הפריט.
+ * פריט שקיל נספר לפי ק"ג.
+ * עם promotions, המבצעים הפעילים של הסניף מוחלים על השורות שנבחרו (promotions.ts).
+ */
+
+export type BasketItem = {
+  query: string; // ברקוד / product id / שם
+  quantity: number; // יחידות, או ק"ג לפריט שקיל
+};
+
+// איך הפריט בסניף נמצא, מהחזק לחלש
+export type LineMatch = "product" | "likely" | "name";
+
+export type BasketLine = BasketItem & {
+  item_code: string;
+  item_name: string;
+  unit_price: number; // ליחידה, או לק"ג בפריט שקיל
+  is_weighted: boolean;
+  regular_total: number;
+  line_total: number; // אחרי מבצעים
+  promotion_id: string | null;
+  match: LineMatch;
+};
+
+export type StoreBasket = {
+  chain: string;
+  store_id: string;
+  store_name: string | null;
+  regular_total: number;
+  total: number;
+  lines: BasketLine[];
+  missing: string[]; // query של פריטים שאין בסניף
+  promotions: AppliedPromotion[];
+};
+
+export type BasketOptions = {
+  chain?: string;
+  // בלי promotions: מחירי מדף בלבד. at: "YYYY-MM-DD HH:MM:SS" בשעון ישראל
+  promotions?: { at: string; includeClub: boolean };
+};
+
+type Offer = { row: CurrentPriceRow; match: LineMatch; rank: number };
+
+const MATCH_RANK: Record<LineMatch, number> = { product: 0, likely: 1, name: 2 };
+// כמה שורות להביא לשאילתת טקסט
+const NAME_MATCH_LIMIT = 5000;
+// החלק המינימלי של המילים ב-canonical_key של פריט שצריך להיות מילים של השאילתה
+const NAME_MIN_COVERAGE = 0.5;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * "7290000000001" / "7290000000001=3" / "עגבניה=1.5" -> { query, quantity }. ברירת מחדל: 1; null כשלא תקין.
+ */
+export function parseBasketItem(text: string): BasketItem | null {
+  const m = text.trim().match(/^(.*?)(?:\s*=\s*(\d+(?:\.\d+)?))?$/);
+  const query = m?.[1].trim() ?? "";
+  const quantity = m?.[2] ? Number(m[2]) : 1;
+  return query && quantity > 0 ? { query, quantity } : null;
+}
+
+// מחיר השורה: פריט שקיל לפי המחיר לק"ג כשיש, אחרת המחיר כפול הכמות
+function lineTotal(row: CurrentPriceRow, quantity: number) {
+  const perKg = row.is_weighted && row.base_unit === "kg" ? row.price_per_base_unit : null;
+  const unitPrice = perKg ?? Number(row.price);
+  const total = round2(unitPrice * quantity);
+  return { unit_price: unitPrice, regular_total: total, line_total: total };
+}
+
+// המבצעים הפעילים לכל סניף (מה-PromoFull האחרון שלו ואילך); מבצע שמופיע בכמה קבצים נלקח מהעדכון האחרון שלו
+async function storePromotions(repos: Repos, itemCodes: string[], opts: BasketOptions) {
+  const out = new Map<string, Map<string, PromotionRow>>();
+  if (!opts.promotions) return out;
+
+  const { at, includeClub } = opts.promotions;
+  for (const p of await repos.promotions.listActive({ itemCodes, at, chain: opts.chain })) {
+    if (p.club_only && !includeClub) continue;
+    const id = `${p.chain}|${p.store_id}`;
+    const promos = out.get(id) ?? new Map<string, PromotionRow>();
+    const current = promos.get(p.promotion_id);
+    if (!current || (p.promotion_update_time ?? "") > (current.promotion_update_time ?? "")) {
+      promos.set(p.promotion_id, p);
+    }
+    out.set(id, promos);
+  }
+  return out;
+}
+
+async function offersFor(repos: Repos, query: string): Promise<Offer[]> {
+  const code = classifyItemCode(query);
+  if (code.kind === "gtin") {
+    const offers: Offer[] = (await repos.prices.listCurrentByProduct(code.gtin)).map((row) => ({
+      row,
+      match: "product",
+      rank: MATCH_RANK.product,
+    }));
+    const likely = await repos.matches.candidates({ productId: code.gtin, min: DEFAULT_REVIEW_BELOW, limit: 50 });
+    for (const c of likely) {
+      for (const row of await repos.prices.listCurrentByItem(c.chain, c.item_code)) {
+        offers.push({ row, match: "likely", rank: MATCH_RANK.likely });
+      }
+    }
+    return offers;
+  }
+
+  const key = canonicalizeName(query).canonical_key;
+  if (!key) return [];
+  const words = keyTokens(key);
+  const rows = await repos.prices.listCurrentByKeyWords(words, NAME_MATCH_LIMIT);
+  return rows.flatMap((row): Offer[] => {
+    const tokens = new Set(keyTokens(row.canonical_key ?? ""));
+    if (!words.every((w) => tokens.has(w))) return [];
+    const coverage = tokens.size ? new Set(words).size / tokens.size : 1;
+    if (coverage < NAME_MIN_COVERAGE) return [];
+    // key זהה קודם, ואחריו לפי כמה מהשם הוא השאילתה; רק בין שווים הזול נבחר
+    return [{ row, match: "name", rank: MATCH_RANK.name + (row.canonical_key === key ? 0 : 1 - coverage / 2) }];
+  });
+}
+
+/**
+ * מחיר הסל בכל סניף שיש בו לפחות פריט אחד מהסל. הסניפים עם הכי פחות חוסרים קודם, ובתוכם הזול קודם.
+ */
+export async function priceBasket(repos: Repos, items: BasketItem[], opts: BasketOptions = {}) {
+  const stores = new Map<string, StoreBasket>();
+  const storeNames = new Map(
+    (await repos.stores.list({ chain: opts.chain })).map((s) => [`${s.chain}|${s.store_id}`, s.store_name])
+  );
+
+  const linesByItem: Map<string, BasketLine>[] = [];
+  for (const item of items) {
+    const best = new Map<string, { offer: Offer; line: BasketLine }>();
+    for (const offer of await offersFor(repos, item.query)) {
+      if (opts.chain && offer.row.chain !== opts.chain) continue;
+      // מחיר 0 הוא שורת מחלקה / פריט בלי מחיר, לא מבצע
+      if (!(Number(offer.row.price) > 0)) continue;
+
+      const line: BasketLine = {
+        ...item,
+        item_code: offer.row.item_code ?? "",
+        item_name: offer.row.item_name,
+        is_weighted: !!offer.row.is_weighted,
+        promotion_id: null,
+        match: offer.match,
+        ...lineTotal(offer.row, item.quantity),
+      };
+      const id = `${offer.row.chain}|${offer.row.store_id}`;
+      if (!stores.has(id)) {
+        // ב-current_prices ל-store_id תמיד יש ערך (חלק מהמפתח)
+        const store_id = offer.row.store_id ?? "";
+        const store_name = storeNames.get(id) ?? null;
+        stores.set(id, {
+          chain: offer.row.chain,
+          store_id,
+          store_name,
+          regular_total: 0,
+          total: 0,
+          lines: [],
+          missing: [],
+          promotions: [],
+        });
+      }
+      const current = best.get(id);
+      if (
+        !current ||
+        offer.rank < current.offer.rank ||
+        (offer.rank === current.offer.rank && line.regular_total < current.line.regular_total)
+      ) {
+        best.set(id, { offer, line });
+      }
+    }
+    linesByItem.push(new Map([...best].map(([id, b]) => [id, b.line])));
+  }
+
+  const itemCodes = new Set(linesByItem.flatMap((lines) => [...lines.values()].map((l) => l.item_code)));
+  const promotions = await storePromotions(repos, [...itemCodes], opts);
+
+  for (const [id, store] of stores) {
+    items.forEach((item, i) => {
+      const line = linesByItem[i].get(id);
+      if (line) store.lines.push(line);
+      else store.missing.push(item.query);
+    });
+
+    const promos = promotions.get(id);
+    if (promos) {
+      const result = applyPromotions(store.lines, [...promos.values()]);
+      store.lines.forEach((l, i) => {
+        l.line_total = result.line_totals[i];
+        l.promotion_id = result.promotion_ids[i];
+      });
+      store.promotions = result.applied;
+    }
+
+    store.regular_total = round2(store.lines.reduce((sum, l) => sum + l.regular_total, 0));
+    store.total = round2(store.lines.reduce((sum, l) => sum + l.line_total, 0));
+  }
+
+  return [...stores.values()].sort(
+    (a, b) => a.missing.length - b.missing.length || a.total - b.total || a.chain.localeCompare(b.chain)
+  );
+}
@@ -0,0 +1,257 @@
+import type { PromotionRow } from "../parse/promo_parser";
+
+/**
+ * מבצעים על סל בסניף אחד. כל שורה בסל מקבלת לכל היותר מבצע אחד (מבצעים לא מצטברים), ומבצע אחד יכול
+ * לכסות כמה שורות ("2 ב-10" על כל הטעמים). נבחר השילוב הזול ביותר: השורות מתחלקות לקבוצות שמחוברות
+ * דרך מבצעים משותפים, ובכל קבוצה נבדקות כל ההשמות (מעל MAX_COMBINATIONS: בחירה חמדנית).
+ *
+ * סוגי מבצע שנתמכים, לפי השדות של PromotionRow:
+ *   bundle     - DiscountedPrice על MinQty יחידות ("3 ב-10"); שארית היחידות במחיר רגיל
+ *   unit_price - DiscountedPrice (או DiscountedPricePerMipuy) ליחידה, כש-MinQty הוא 1 או ריק
+ *   percent    - DiscountRate באחוזים (15) או כשבר (0.15), כשהכמות הגיעה ל-MinQty
+ * RewardType ו-DiscountType נבדקים כשהרשת שולחת אותם: רק RewardType 1 (הנחה רגילה), ו-DiscountType קובע אם
+ * ההנחה היא מחיר (1) או אחוז (2). מבצע מסוג אחר (מתנה, קנה X קבל Y, הנחה על הסל) או ששדותיו לא מתאימים
+ * לסוג שלו מדולג; כשהשדות ריקים הסוג נגזר מהשדות שיש.
+ * MaxQty מגביל כמה יחידות מקבלות את ההנחה; היחידות היקרות מקבלות אותה קודם.
+ * פריט שקיל משתתף רק במבצע שקיל (IsWeightedPromo), והכמויות בו בק"ג. קופונים לא נספרים.
+ */
+
+export type PromoKind = "bundle" | "unit_price" | "percent";
+
+type Deal =
+  | { kind: "bundle"; size: number; price: number }
+  | { kind: "unit_price"; price: number }
+  | { kind: "percent"; fraction: number };
+
+// שורה בסל כפי שהמבצעים רואים אותה
+export type PromoLine = {
+  item_code: string;
+  quantity: number;
+  unit_price: number;
+  is_weighted: boolean;
+};
+
+export type AppliedPromotion = {
+  promotion_id: string;
+  description: string | null;
+  kind: PromoKind;
+  club_only: boolean;
+  item_codes: string[]; // השורות שהמבצע חל עליהן
+  saving: number;
+};
+
+export type PromotionResult = {
+  line_totals: number[]; // המחיר של כל שורה אחרי המבצעים, באותו סדר
+  promotion_ids: (string | null)[];
+  applied: AppliedPromotion[];
+};
+
+// כמה השמות לבדוק בקבוצת שורות אחת לפני שעוברים לבחירה חמדנית
+const MAX_COMBINATIONS = 20000;
+
+// RewardType / DiscountType לפי מבנה קובץ המבצעים
+const REWARD_DISCOUNT = 1;
+const DISCOUNT_PRICE = 1;
+const DISCOUNT_PERCENT = 2;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function dealOf(p: PromotionRow): Deal | null {
+  if (p.reward_type != null && p.reward_type !== REWARD_DISCOUNT) return null;
+  const type = p.discount_type;
+  if (type != null && type !== DISCOUNT_PRICE && type !== DISCOUNT_PERCENT) return null;
+
+  const rate = p.discount_rate ?? 0;
+  if (type !== DISCOUNT_PRICE && rate > 0 && rate < 100) {
+    return { kind: "percent", fraction: rate < 1 ? rate : rate / 100 };
+  }
+  if (type === DISCOUNT_PERCENT) return null;
+
+  const minQty = p.min_qty ?? 1;
+  if (p.discounted_price != null && p.discounted_price > 0) {
+    return minQty > 1
+      ? { kind: "bundle", size: minQty, price: p.discounted_price }
+      : { kind: "unit_price", price: p.discounted_price };
+  }
+  if (p.discounted_price_per_unit != null && p.discounted_price_per_unit > 0) {
+    return { kind: "unit_price", price: p.discounted_price_per_unit };
+  }
+  return null;
+}
+
+function eligible(p: PromotionRow, line: PromoLine): boolean {
+  return p.item_codes.includes(line.item_code) && line.is_weighted === !!p.is_weighted_promo;
+}
+
+type Segment = { price: number; qty: number };
+
+/**
+ * המחיר של שורות תחת מבצע אחד, או null כשהמבצע לא חל (לא הגיעו ל-MinQty, או שהוא לא זול יותר).
+ */
+export function promotionCost(p: PromotionRow, lines: PromoLine[]): number | null {
+  const deal = dealOf(p);
+  if (!deal || !lines.length) return null;
+
+  const regular = lines.reduce((sum, l) => sum + l.unit_price * l.quantity, 0);
+  const totalQty = lines.reduce((sum, l) => sum + l.quantity, 0);
+  const minQty = p.min_qty ?? 1;
+  if (totalQty < minQty) return null;
+
+  // היחידות היקרות קודם; dealQty יחידות מקבלות את ההנחה
+  const segments: Segment[] = lines
+    .map((l) => ({ price: l.unit_price, qty: l.quantity }))
+    .sort((a, b) => b.price - a.price);
+  const priceOfFirst = (qty: number) => {
+    let left = qty;
+    let sum = 0;
+    for (const s of segments) {
+      const take = Math.min(left, s.qty);
+      sum += take * s.price;
+      left -= take;
+    }
+    return sum;
+  };
+  const maxQty = p.max_qty != null && p.max_qty > 0 ? p.max_qty : Infinity;
+
+  const dealQty = Math.min(totalQty, maxQty);
+  let cost: number;
+  if (deal.kind === "bundle") {
+    const groups = Math.floor(dealQty / deal.size + 1e-9);
+    if (!groups) return null;
+    cost = groups * deal.price + (regular - priceOfFirst(groups * deal.size));
+  } else if (deal.kind === "unit_price") {
+    cost = dealQty * deal.price + (regular - priceOfFirst(dealQty));
+  } else {
+    cost = regular - deal.fraction * priceOfFirst(dealQty);
+  }
+
+  return cost < regular - 0.005 ? round2(cost) : null;
+}
+
+// איחוד קבוצות (union-find) של אינדקסים של שורות
+function components(size: number, groups: number[][]): number[][] {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (const g of groups) for (const i of g.slice(1)) parent[find(i)] = find(g[0]);
+
+  const out = new Map<number, number[]>();
+  for (let i = 0; i < size; i++) out.set(find(i), [...(out.get(find(i)) ?? []), i]);
+  return [...out.values()];
+}
+
+type Assignment = Map<number, number>; // אינדקס שורה -> אינדקס מבצע
+
+function assignmentCost(
+  assignment: Assignment,
+  lineIdx: number[],
+  lines: PromoLine[],
+  promos: PromotionRow[]
+): { total: number; costs: Map<number, number> } | null {
+  const byPromo = new Map<number, number[]>();
+  let total = 0;
+  for (const i of lineIdx) {
+    const p = assignment.get(i);
+    if (p == null) total += lines[i].unit_price * lines[i].quantity;
+    else byPromo.set(p, [...(byPromo.get(p) ?? []), i]);
+  }
+
+  const costs = new Map<number, number>();
+  for (const [p, idx] of byPromo) {
+    const cost = promotionCost(
+      promos[p],
+      idx.map((i) => lines[i])
+    );
+    if (cost == null) return null; // השמה למבצע שלא חל לא חוקית
+    costs.set(p, cost);
+    total += cost;
+  }
+  return { total, costs };
+}
+
+function bestAssignment(lineIdx: number[], options: Map<number, number[]>, lines: PromoLine[], promos: PromotionRow[]) {
+  let best: Assignment = new Map();
+  let bestTotal = assignmentCost(best, lineIdx, lines, promos)?.total ?? Infinity;
+
+  const combinations = lineIdx.reduce((n, i) => n * ((options.get(i)?.length ?? 0) + 1), 1);
+  if (combinations <= MAX_COMBINATIONS) {
+    const current: Assignment = new Map();
+    const visit = (k: number) => {
+      if (k === lineIdx.length) {
+        const result = assignmentCost(current, lineIdx, lines, promos);
+        if (result && result.total < bestTotal - 1e-9) {
+          bestTotal = result.total;
+          best = new Map(current);
+        }
+        return;
+      }
+      const i = lineIdx[k];
+      visit(k + 1);
+      for (const p of options.get(i) ?? []) {
+        current.set(i, p);
+        visit(k + 1);
+        current.delete(i);
+      }
+    };
+    visit(0);
+    return best;
+  }
+
+  // חמדני: בכל סיבוב המבצע שחוסך הכי הרבה על השורות שעוד פנויות
+  for (;;) {
+    let pick: Assignment | null = null;
+    for (const p of new Set([...options.values()].flat())) {
+      const trial = new Map(best);
+      for (const i of lineIdx) if (!trial.has(i) && options.get(i)?.includes(p)) trial.set(i, p);
+      const result = assignmentCost(trial, lineIdx, lines, promos);
+      if (result && result.total < bestTotal - 1e-9) {
+        bestTotal = result.total;
+        pick = trial;
+      }
+    }
+    if (!pick) return best;
+    best = pick;
+  }
+}
+
+/**
+ * מחיל את המבצעים של הסניף על השורות. promos: המבצעים הפעילים של הסניף (בלי מבצעי מועדון, אם לא רוצים אותם).
+ */
+export function applyPromotions(lines: PromoLine[], promos: PromotionRow[]): PromotionResult {
+  const lineTotals = lines.map((l) => round2(l.unit_price * l.quantity));
+  const promotionIds: (string | null)[] = lines.map(() => null);
+  const applied: AppliedPromotion[] = [];
+
+  const usable = promos.filter((p) => dealOf(p) && !p.is_coupon);
+  const options = new Map<number, number[]>();
+  const promoLines = usable.map((p, pi) => {
+    const idx = lines.flatMap((l, i) => (eligible(p, l) ? [i] : []));
+    for (const i of idx) options.set(i, [...(options.get(i) ?? []), pi]);
+    return idx;
+  });
+
+  for (const lineIdx of components(lines.length, promoLines)) {
+    if (!lineIdx.some((i) => options.has(i))) continue;
+
+    const assignment = bestAssignment(lineIdx, options, lines, usable);
+    const result = assignmentCost(assignment, lineIdx, lines, usable);
+    for (const [pi, cost] of result?.costs ?? []) {
+      const idx = lineIdx.filter((i) => assignment.get(i) === pi);
+      const regular = idx.reduce((sum, i) => sum + lines[i].unit_price * lines[i].quantity, 0);
+      // המחיר אחרי המבצע מתחלק בין השורות לפי המחיר הרגיל שלהן
+      for (const i of idx) {
+        lineTotals[i] = round2((cost * lines[i].unit_price * lines[i].quantity) / regular);
+        promotionIds[i] = usable[pi].promotion_id;
+      }
+      applied.push({
+        promotion_id: usable[pi].promotion_id,
+        description: usable[pi].description,
+        kind: dealOf(usable[pi])?.kind ?? "unit_price",
+        club_only: usable[pi].club_only,
+        item_codes: idx.map((i) => lines[i].item_code),
+        saving: round2(regular - cost),
+      });
+    }
+  }
+
+  return { line_totals: lineTotals, promotion_ids: promotionIds, applied };
+}
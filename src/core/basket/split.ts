@@ -0,0 +1,174 @@
+import type { BasketItem, BasketLine, StoreBasket } from "./basket";
+
+/**
+ * חלוקת סל בין כמה סניפים (עד MAX_SPLIT_STORES), מתוך התמחור של priceBasket בכל סניף.
+ * לכל קבוצת סניפים מהמועמדים כל פריט הולך לסניף שבו הוא הכי זול, ואז פריטים עוברים בין הסניפים
+ * כל עוד זה מוזיל (בגלל מבצעים על כמה שורות). trip_cost נוסף על כל סניף שיש בו לפחות פריט אחד.
+ *
+ * מבצע שחלק מהשורות שלו הועברו לסניף אחר לא נספר בסניף המקורי: השורות שנשארו בו במחיר הרגיל.
+ * זה מחיר עליון; בפועל חלק מהמבצעים (הנחה ליחידה) יחולו גם על חלק מהשורות.
+ */
+
+export const MAX_SPLIT_STORES = 3;
+
+export type SplitStop = {
+  chain: string;
+  store_id: string;
+  store_name: string | null;
+  total: number;
+  lines: BasketLine[];
+};
+
+export type SplitPlan = {
+  stops: SplitStop[];
+  items_total: number;
+  trip_cost: number; // trip_cost כפול מספר הסניפים
+  total: number;
+  missing: string[]; // query של פריטים שאין באף סניף בתוכנית
+};
+
+export type SplitResult = {
+  best: SplitPlan;
+  single: SplitPlan; // הסניף הבודד הזול ביותר
+  // single.total - best.total; null כשהחלוקה מכסה פריטים שאין בסניף הבודד (הסכומים לא על אותו סל)
+  saving: number | null;
+  uncovered: string[]; // query של הפריטים האלה
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// השורה של כל פריט בסל בסניף (לפי הסדר של items), או null כשהוא חסר
+function linesByItem(items: BasketItem[], store: StoreBasket): (BasketLine | null)[] {
+  let next = 0;
+  return items.map((item) => {
+    const line = store.lines[next];
+    if (line?.query !== item.query || line.quantity !== item.quantity) return null;
+    next++;
+    return line;
+  });
+}
+
+// השורות שנקנות בסניף; מבצע שלא כל השורות שלו כאן לא נספר, והשורות שלו במחיר הרגיל
+function stopLines(store: StoreBasket, lines: BasketLine[]): BasketLine[] {
+  const codes = new Set(lines.map((l) => l.item_code));
+  const kept = new Set(
+    store.promotions.filter((p) => p.item_codes.every((c) => codes.has(c))).map((p) => p.promotion_id)
+  );
+  return lines.map((l) =>
+    l.promotion_id && !kept.has(l.promotion_id) ? { ...l, line_total: l.regular_total, promotion_id: null } : l
+  );
+}
+
+const linesTotal = (lines: BasketLine[]) => round2(lines.reduce((sum, l) => sum + l.line_total, 0));
+
+function subsets<T>(values: T[], maxSize: number): T[][] {
+  const out: T[][] = [];
+  const visit = (start: number, current: T[]) => {
+    if (current.length) out.push(current);
+    if (current.length === maxSize) return;
+    for (let i = start; i < values.length; i++) visit(i + 1, [...current, values[i]]);
+  };
+  visit(0, []);
+  return out;
+}
+
+type Candidate = { store: StoreBasket; lines: (BasketLine | null)[] };
+
+// assignment: אינדקס פריט -> אינדקס סניף ב-stops, או -1 לפריט חסר
+function planCost(stops: Candidate[], assignment: number[], tripCost: number) {
+  const used = stops.map((c, s) => {
+    const lines = assignment.flatMap((a, i) => (a === s ? [c.lines[i] as BasketLine] : []));
+    return { c, lines: stopLines(c.store, lines) };
+  });
+  const itemsTotal = used.reduce((sum, u) => sum + linesTotal(u.lines), 0);
+  const trips = used.filter((u) => u.lines.length).length * tripCost;
+  return { used, itemsTotal: round2(itemsTotal), trips, total: round2(itemsTotal + trips) };
+}
+
+function bestAssignment(stops: Candidate[], itemCount: number, tripCost: number): number[] {
+  // ההתחלה: כל פריט בסניף שבו השורה שלו הכי זולה
+  const assignment = Array.from({ length: itemCount }, (_, i) => {
+    let pick = -1;
+    stops.forEach((c, s) => {
+      const line = c.lines[i];
+      if (line && (pick < 0 || line.line_total < (stops[pick].lines[i] as BasketLine).line_total)) pick = s;
+    });
+    return pick;
+  });
+
+  // העברת פריט אחד בכל פעם, כל עוד הסך יורד
+  let total = planCost(stops, assignment, tripCost).total;
+  let improved: boolean;
+  do {
+    improved = false;
+    for (let i = 0; i < itemCount; i++) {
+      for (let s = 0; s < stops.length; s++) {
+        if (s === assignment[i] || !stops[s].lines[i]) continue;
+        const from = assignment[i];
+        assignment[i] = s;
+        const trial = planCost(stops, assignment, tripCost).total;
+        if (trial < total - 1e-9) {
+          total = trial;
+          improved = true;
+        } else {
+          assignment[i] = from;
+        }
+      }
+    }
+  } while (improved);
+  return assignment;
+}
+
+function toPlan(items: BasketItem[], stops: Candidate[], assignment: number[], tripCost: number): SplitPlan {
+  const cost = planCost(stops, assignment, tripCost);
+  return {
+    stops: cost.used
+      .filter((u) => u.lines.length)
+      .map((u) => ({
+        chain: u.c.store.chain,
+        store_id: u.c.store.store_id,
+        store_name: u.c.store.store_name,
+        total: linesTotal(u.lines),
+        lines: u.lines,
+      })),
+    items_total: cost.itemsTotal,
+    trip_cost: cost.trips,
+    total: cost.total,
+    missing: items.flatMap((item, i) => (assignment[i] < 0 ? [item.query] : [])),
+  };
+}
+
+// פחות חוסרים קודם, ואז הזול; בשוויון, פחות סניפים
+function comparePlans(a: SplitPlan, b: SplitPlan): number {
+  return a.missing.length - b.missing.length || a.total - b.total || a.stops.length - b.stops.length;
+}
+
+/**
+ * החלוקה הזולה ביותר של items בין עד maxStores סניפים מתוך stores (התוצאה של priceBasket על אותו סל).
+ * null כשאין אף סניף.
+ */
+export function splitBasket(
+  items: BasketItem[],
+  stores: StoreBasket[],
+  opts: { maxStores: number; tripCost: number }
+): SplitResult | null {
+  if (opts.maxStores < 1 || opts.maxStores > MAX_SPLIT_STORES) {
+    throw new Error(`maxStores must be between 1 and ${MAX_SPLIT_STORES}, got ${opts.maxStores}`);
+  }
+  const candidates: Candidate[] = stores.map((store) => ({ store, lines: linesByItem(items, store) }));
+
+  let best: SplitPlan | null = null;
+  let single: SplitPlan | null = null;
+  for (const stops of subsets(candidates, opts.maxStores)) {
+    const plan = toPlan(items, stops, bestAssignment(stops, items.length, opts.tripCost), opts.tripCost);
+    if (!best || comparePlans(plan, best) < 0) best = plan;
+    if (stops.length === 1 && (!single || comparePlans(plan, single) < 0)) single = plan;
+  }
+  if (!best || !single) return null;
+
+  const covered = new Set(best.missing);
+  const uncovered = single.missing.filter((q) => !covered.has(q));
+  const sameItems = !uncovered.length && single.missing.length === best.missing.length;
+  const saving = sameItems ? round2(single.total - best.total) : null;
+  return { best, single, saving, uncovered };
+}
@@ -0,0 +1,47 @@
+import type { Repos } from "../db/repos";
+import type { RawFileType } from "../file_types";
+import type { ChainDescriptor } from "../parse/price_full_parser";
+import type { PromoDescriptor } from "../parse/promo_parser";
+import type { StoresDescriptor } from "../parse/stores_parser";
+import type { RawFileStore } from "../storage/raw_file_store";
+
+/**
+ * רשת אחת ב-registry: איך מורידים ממנה קבצים ואיך מפרקים אותם.
+ * רשת חדשה = קובץ chain.ts אחד תחת scrapers/<chain> + שורה ב-scrapers/registry.ts
+ * (רשת ב-publishedprices.co.il: רק שורה ב-registry, עם publishedPricesChain).
+ */
+
+// איך נכנסים לפורטל של הרשת
+export type AuthStrategy =
+  | { kind: "none" } // אתר פתוח (שופרסל)
+  | { kind: "publishedprices"; username: string; password?: string }; // url.publishedprices.co.il (Cerberus)
+
+export type CollectOptions = {
+  bucket: string;
+  maxPages: number;
+  maxDownloads: number;
+  fileTypes: RawFileType[];
+  // סינון לפי שם הקובץ (כרגע רק ב-publishedprices; שופרסל מתעלמת)
+  storeIds?: string[]; // ברירת מחדל: כל הסניפים
+  since?: string; // yyyymmddHHMM כמו בשמות הקבצים; ברירת מחדל: הכל
+  concurrency?: number; // קבצים במקביל (ברירת מחדל ב-core/collect/scheduler)
+  ratePerHost?: number; // בקשות לשנייה לכל host
+  store?: RawFileStore; // ברירת מחדל: לפי RAW_STORE
+  repos?: Repos; // ברירת מחדל: לפי DB_BACKEND
+};
+
+export type CollectResult = { downloaded: number };
+
+export type ChainDefinition = {
+  slug: string; // כפי שנשמר ב-raw_files.chain
+  name: string; // שם לתצוגה
+  chainId: string; // מספר הרשת (GLN) כפי שמופיע בשמות הקבצים
+  auth: AuthStrategy;
+  collect: (opts: CollectOptions) => Promise<CollectResult>;
+  // adapters ל-parsers המשותפים; כל descriptor מחזיק גם את תבנית שם הקובץ
+  parsers: {
+    prices: ChainDescriptor;
+    promo: PromoDescriptor;
+    stores: StoresDescriptor;
+  };
+};
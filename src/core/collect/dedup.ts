@@ -0,0 +1,64 @@
+import type { Repos } from "../db/repos";
+import type { RawFileInsert, RawFileRecord } from "../db/types";
+
+/**
+ * dedup לפי תוכן, משותף לכל ה-collectors: אחרי ההורדה ולפני ההעלאה בודקים אם ה-sha256 כבר אצלנו.
+ * - אותו URL ואותו תוכן -> רק מסמנים הופעה (last_seen_at, seen_count), בלי העלאה ובלי לגעת ב-status
+ * - תוכן שכבר נקלט תחת URL אחר -> שורה חדשה עם status duplicate שמצביעה על המקור, בלי העלאה ובלי פירוק
+ * - URL קיים שהתוכן שלו השתנה לתוכן שכבר נקלט -> רק מסמנים הופעה על השורה הקיימת. היא לא נדרסת:
+ *   ייתכן שכבר פורקה ו-prices מצביעים עליה, וההיסטוריה שלה (first_seen_at / last_seen_at) נשמרת
+ */
+
+export type ContentMatch =
+  | { kind: "new" }
+  | { kind: "seen"; record: RawFileRecord } // אותו URL, והתוכן כבר אצלנו
+  | { kind: "duplicate"; original: RawFileRecord }; // אותו תוכן, URL אחר (או URL שנכשל קודם)
+
+export async function matchContent(
+  repos: Repos,
+  chain: string,
+  fileUrl: string,
+  sha256: string
+): Promise<ContentMatch> {
+  const byUrl = await repos.rawFiles.findByUrl(chain, fileUrl);
+  // שורה שנכשלה (למשל upload) לא נחשבת: מנסים שוב
+  if (byUrl?.sha256 === sha256 && byUrl.status !== "failed" && byUrl.status !== "skipped") {
+    return { kind: "seen", record: byUrl };
+  }
+
+  const original = await repos.rawFiles.findBySha(chain, sha256);
+  if (original && original.id !== byUrl?.id) {
+    if (byUrl && byUrl.status !== "failed" && byUrl.status !== "skipped") return { kind: "seen", record: byUrl };
+    return { kind: "duplicate", original };
+  }
+
+  return { kind: "new" };
+}
+
+/**
+ * רושם את מה ש-matchContent מצא. מחזיר true אם הקובץ טופל (ואין להעלות אותו).
+ * row הוא מה שהיה נרשם לקובץ חדש; לכפילות נשמר ה-storage_path של המקור.
+ */
+export async function recordKnownContent(
+  repos: Repos,
+  match: ContentMatch,
+  row: RawFileInsert & { fetched_at: string }
+): Promise<boolean> {
+  if (match.kind === "seen") {
+    await repos.rawFiles.markSeen(match.record.id, row.fetched_at);
+    return true;
+  }
+
+  if (match.kind === "duplicate") {
+    await repos.rawFiles.upsertByUrl({
+      ...row,
+      storage_path: match.original.storage_path,
+      status: "duplicate",
+      error: null,
+      duplicate_of: match.original.id,
+    });
+    return true;
+  }
+
+  return false;
+}
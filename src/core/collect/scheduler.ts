@@ -0,0 +1,131 @@
+/**
+ * תזמון הורדות משותף לכל ה-collectors:
+ * - politeFetch: fetch עם הגבלת קצב לכל host, ו-retry עם exponential backoff על 429/5xx ושגיאות רשת
+ *   (Retry-After מכובד, ועוצר את כל הבקשות לאותו host עד שיעבור)
+ * - mapConcurrent: כמה קבצים במקביל, בלי לשנות את סדר התוצאות
+ */
+
+export type SchedulerOptions = {
+  concurrency: number; // קבצים במקביל לכל רשת
+  ratePerHost: number; // התחלות בקשה לשנייה לכל host
+  maxRetries: number; // ניסיונות נוספים לבקשה אחת
+  baseDelayMs: number; // backoff: base * 2^attempt, עם jitter
+  maxDelayMs: number; // תקרה ל-backoff ול-Retry-After; Retry-After ארוך יותר מחזיר את התשובה כמו שהיא
+};
+
+export const DEFAULT_SCHEDULER: SchedulerOptions = {
+  concurrency: 4,
+  ratePerHost: 2,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+export type PoliteFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Retry-After: שניות ("120") או תאריך HTTP
+export function retryAfterMs(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const at = Date.parse(trimmed);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+// undici זורק "fetch failed" והסיבה האמיתית (ECONNRESET, ETIMEDOUT...) ב-cause
+function networkError(e: any): string {
+  return String(e?.cause?.code ?? e?.message ?? e);
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+export function createPoliteFetch(opts: Partial<SchedulerOptions> = {}): PoliteFetch {
+  const o = { ...DEFAULT_SCHEDULER };
+  // undefined (flag שלא הועבר) לא דורס את ברירת המחדל
+  for (const [k, v] of Object.entries(opts)) if (v != null) (o as any)[k] = v;
+  const interval = o.ratePerHost > 0 ? 1000 / o.ratePerHost : 0;
+  const nextStart = new Map<string, number>(); // host -> מתי מותר להתחיל את הבקשה הבאה
+  const pausedUntil = new Map<string, number>(); // host -> עד מתי לחכות בגלל Retry-After
+
+  // שומר תור לכל host: כל קורא מקבל את החלון הפנוי הבא ומחכה לו
+  async function acquire(host: string) {
+    const now = Date.now();
+    const at = Math.max(now, nextStart.get(host) ?? 0);
+    nextStart.set(host, at + interval);
+    if (at > now) await sleep(at - now);
+
+    // גם מי שכבר קיבל חלון לפני ה-429 מחכה להפסקה
+    const pause = (pausedUntil.get(host) ?? 0) - Date.now();
+    if (pause > 0) await sleep(pause);
+  }
+
+  function pauseHost(host: string, ms: number) {
+    pausedUntil.set(host, Math.max(pausedUntil.get(host) ?? 0, Date.now() + ms));
+  }
+
+  function backoff(attempt: number) {
+    const ms = Math.min(o.maxDelayMs, o.baseDelayMs * 2 ** attempt);
+    return Math.round(ms * (0.5 + Math.random() * 0.5));
+  }
+
+  return async (url, init) => {
+    const host = new URL(url).host;
+
+    for (let attempt = 0; ; attempt++) {
+      await acquire(host);
+
+      let res: Response | null = null;
+      let error: unknown = null;
+      try {
+        res = await fetch(url, init);
+      } catch (e) {
+        if ((e as Error)?.name === "AbortError") throw e;
+        error = e;
+      }
+
+      if (res && !isRetryableStatus(res.status)) return res;
+
+      const retryAfter = res ? retryAfterMs(res.headers.get("retry-after")) : null;
+      const giveUp = attempt >= o.maxRetries || (retryAfter != null && retryAfter > o.maxDelayMs);
+      if (giveUp) {
+        if (res) return res;
+        throw error;
+      }
+
+      const delay = retryAfter ?? backoff(attempt);
+      if (retryAfter != null) pauseHost(host, retryAfter);
+      if (res) await res.body?.cancel();
+
+      const reason = res ? `HTTP ${res.status}` : networkError(error);
+      console.log(`[RETRY] ${host} ${reason}, attempt ${attempt + 1}/${o.maxRetries} in ${(delay / 1000).toFixed(1)}s`);
+      await sleep(delay);
+    }
+  };
+}
+
+/**
+ * מריץ worker על כל הפריטים, לכל היותר concurrency בבת אחת. התוצאות באותו סדר כמו items.
+ * שגיאה של worker מפילה את הכל, אז workers צריכים לתפוס שגיאות של פריט בודד בעצמם.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function lane() {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await worker(items[i], i);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+  return results;
+}
@@ -0,0 +1,66 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import pg from "pg";
+import { applyPostgresMigrations, applySqliteMigrations, type MigrationResult } from "./migrations";
+import { DEFAULT_SQLITE_PATH } from "./repos";
+
+/**
+ * מריץ מיגרציות שעוד לא רצו על מסד היעד:
+ *   DB_BACKEND=sqlite   -> SQLITE_PATH (ברירת מחדל data/smartcart.sqlite)
+ *   DB_BACKEND=supabase -> DATABASE_URL (connection string של ה-Postgres של הפרויקט, לא ה-REST URL)
+ *
+ * npx tsx src/core/db/migrate.ts            # מריץ
+ * npx tsx src/core/db/migrate.ts --dry-run  # רק מציג מה ממתין
+ */
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function migrateSqlite(): Promise<MigrationResult> {
+  const dbPath = process.env.SQLITE_PATH ?? DEFAULT_SQLITE_PATH;
+  fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+  const db = new Database(dbPath);
+  try {
+    console.log(`Target: sqlite ${dbPath}`);
+    return applySqliteMigrations(db, { dryRun });
+  } finally {
+    db.close();
+  }
+}
+
+async function migratePostgres(): Promise<MigrationResult> {
+  const url = process.env.DATABASE_URL;
+  if (!url) throw new Error("DB_BACKEND=supabase requires DATABASE_URL (Postgres connection string)");
+
+  const client = new pg.Client({ connectionString: url });
+  await client.connect();
+  try {
+    console.log(`Target: postgres ${client.host}:${client.port}/${client.database}`);
+    return await applyPostgresMigrations(client, { dryRun });
+  } finally {
+    await client.end();
+  }
+}
+
+async function main() {
+  const backend = process.env.DB_BACKEND ?? "supabase";
+  const result = backend === "sqlite" ? await migrateSqlite() : await migratePostgres();
+
+  for (const m of result.changed) console.log(`[WARN] already applied but file changed: ${m.file}`);
+
+  if (dryRun) {
+    if (!result.pending.length) console.log("Up to date");
+    for (const m of result.pending) console.log(`pending: ${m.file}`);
+    return;
+  }
+
+  if (!result.applied.length) console.log("Up to date");
+  for (const m of result.applied) console.log(`applied: ${m.file}`);
+}
+
+main().catch((e) => {
+  console.error(String(e?.message ?? e));
+  process.exit(1);
+});
@@ -0,0 +1,160 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type Database from "better-sqlite3";
+import type pg from "pg";
+
+/**
+ * מיגרציות SQL עם גרסאות: src/core/db/migrations/<dialect>/NNNN_name.sql
+ * כל מיגרציה רצה פעם אחת בטרנזקציה משלה ונרשמת ב-schema_migrations (version, name, checksum, applied_at).
+ * אותו version בשני ה-dialects מתאר את אותו שינוי בסכמה.
+ */
+
+export type Dialect = "postgres" | "sqlite";
+
+export type Migration = {
+  version: string; // "0001"
+  name: string; // "init"
+  file: string;
+  sql: string;
+  checksum: string;
+};
+
+export type MigrationResult = {
+  applied: Migration[]; // מה שרץ עכשיו
+  pending: Migration[]; // מה שעדיין לא רץ (ב-dryRun זה כל מה שהיה רץ)
+  changed: Migration[]; // מיגרציות שכבר רצו אבל הקובץ שלהן השתנה מאז
+};
+
+export const MIGRATIONS_DIR = path.join(__dirname, "migrations");
+
+const FILE_RE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+const SQLITE_TABLE = `
+create table if not exists schema_migrations (
+  version text primary key,
+  name text not null,
+  checksum text not null,
+  applied_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+)`;
+
+const POSTGRES_TABLE = `
+create table if not exists public.schema_migrations (
+  version text primary key,
+  name text not null,
+  checksum text not null,
+  applied_at timestamptz not null default now()
+)`;
+
+// מונע שתי הרצות במקביל על אותו מסד (למשל smartcart run משני מחשבים)
+const POSTGRES_LOCK_KEY = 742_001;
+
+// CRLF/LF לא משנים את ה-checksum
+function checksumOf(sql: string): string {
+  return crypto.createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+export function loadMigrations(dialect: Dialect, dir: string = MIGRATIONS_DIR): Migration[] {
+  const dialectDir = path.join(dir, dialect);
+  const seen = new Set<string>();
+
+  return fs
+    .readdirSync(dialectDir)
+    .filter((f) => f.endsWith(".sql"))
+    .sort()
+    .map((file) => {
+      const m = file.match(FILE_RE);
+      if (!m) throw new Error(`Bad migration filename: ${dialect}/${file} (expected NNNN_name.sql)`);
+      if (seen.has(m[1])) throw new Error(`Duplicate migration version: ${dialect}/${m[1]}`);
+      seen.add(m[1]);
+
+      const sql = fs.readFileSync(path.join(dialectDir, file), "utf8");
+      return { version: m[1], name: m[2], file, sql, checksum: checksumOf(sql) };
+    });
+}
+
+function diff(all: Migration[], applied: Map<string, string>): Omit<MigrationResult, "applied"> {
+  return {
+    pending: all.filter((m) => !applied.has(m.version)),
+    changed: all.filter((m) => applied.has(m.version) && applied.get(m.version) !== m.checksum),
+  };
+}
+
+/**
+ * מריץ על SQLite את כל המיגרציות שעוד לא רצו. סינכרוני (better-sqlite3), כדי ש-createSqliteRepos יוכל לקרוא לו בפתיחה.
+ */
+export function applySqliteMigrations(
+  db: Database.Database,
+  opts: { dryRun?: boolean; migrations?: Migration[] } = {}
+): MigrationResult {
+  const all = opts.migrations ?? loadMigrations("sqlite");
+
+  db.exec(SQLITE_TABLE);
+  const rows = db.prepare("select version, checksum from schema_migrations").all() as {
+    version: string;
+    checksum: string;
+  }[];
+  const { pending, changed } = diff(all, new Map(rows.map((r) => [r.version, r.checksum])));
+  if (opts.dryRun) return { applied: [], pending, changed };
+
+  const record = db.prepare("insert into schema_migrations (version, name, checksum) values (?, ?, ?)");
+  const applied: Migration[] = [];
+
+  for (const m of pending) {
+    try {
+      db.transaction(() => {
+        db.exec(m.sql);
+        record.run(m.version, m.name, m.checksum);
+      })();
+    } catch (e: any) {
+      throw new Error(`Migration sqlite/${m.file} failed: ${String(e?.message ?? e)}`);
+    }
+    applied.push(m);
+  }
+
+  return { applied, pending: [], changed };
+}
+
+/**
+ * מריץ על Postgres (Supabase) את כל המיגרציות שעוד לא רצו.
+ * ה-client כבר מחובר; הפונקציה לא סוגרת אותו.
+ */
+export async function applyPostgresMigrations(
+  client: pg.Client,
+  opts: { dryRun?: boolean; migrations?: Migration[] } = {}
+): Promise<MigrationResult> {
+  const all = opts.migrations ?? loadMigrations("postgres");
+
+  await client.query("select pg_advisory_lock($1)", [POSTGRES_LOCK_KEY]);
+  try {
+    await client.query(POSTGRES_TABLE);
+    const { rows } = await client.query<{ version: string; checksum: string }>(
+      "select version, checksum from public.schema_migrations"
+    );
+    const { pending, changed } = diff(all, new Map(rows.map((r) => [r.version, r.checksum])));
+    if (opts.dryRun) return { applied: [], pending, changed };
+
+    const applied: Migration[] = [];
+
+    for (const m of pending) {
+      try {
+        await client.query("begin");
+        await client.query(m.sql);
+        await client.query("insert into public.schema_migrations (version, name, checksum) values ($1, $2, $3)", [
+          m.version,
+          m.name,
+          m.checksum,
+        ]);
+        await client.query("commit");
+      } catch (e: any) {
+        await client.query("rollback").catch(() => {});
+        throw new Error(`Migration postgres/${m.file} failed: ${String(e?.message ?? e)}`);
+      }
+      applied.push(m);
+    }
+
+    return { applied, pending: [], changed };
+  } finally {
+    await client.query("select pg_advisory_unlock($1)", [POSTGRES_LOCK_KEY]).catch(() => {});
+  }
+}
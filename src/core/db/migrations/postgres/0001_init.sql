@@ -0,0 +1,78 @@
+-- הטבלאות המקוריות של ה-pipeline + ה-RPC ש-aggregate / run_all קוראים לו.
+-- if not exists כדי שאפשר להריץ גם על פרויקט Supabase שבו הטבלאות נוצרו ידנית.
+
+create table if not exists public.raw_files (
+  id uuid primary key default gen_random_uuid(),
+  chain text not null,
+  store_id text,
+  file_url text not null,
+  storage_path text,
+  sha256 text,
+  fetched_at timestamptz not null default now(),
+  status text not null,
+  error text,
+  unique (chain, file_url)
+);
+
+create index if not exists raw_files_pending_idx on public.raw_files (chain, status, fetched_at desc);
+
+create table if not exists public.prices (
+  raw_file_id uuid not null references public.raw_files(id),
+  chain text not null,
+  sub_chain_id text,
+  store_id text,
+  bikoret_no integer,
+  item_code text not null,
+  barcode text,
+  item_name text not null,
+  canonical_key text,
+  price numeric(12, 2) not null,
+  unit_qty numeric,
+  unit_of_measure text,
+  price_update_time timestamp,
+  last_sale_datetime timestamp,
+  is_weighted boolean,
+  qty_in_package numeric,
+  fetched_at timestamptz not null default now(),
+  primary key (raw_file_id, item_code)
+);
+
+create index if not exists prices_canonical_idx on public.prices (canonical_key, chain);
+
+create table if not exists public.product_stats_daily (
+  day date not null,
+  chain text not null,
+  canonical_key text not null,
+  avg_price numeric(12, 2) not null,
+  sample_count integer not null,
+  min_price numeric(12, 2) not null,
+  max_price numeric(12, 2) not null,
+  primary key (day, chain, canonical_key)
+);
+
+-- מחשב סטטיסטיקה ל-days_back הימים האחרונים (לפי price_update_time אם יש)
+create or replace function public.refresh_product_stats_daily(days_back integer default 2)
+returns void
+language sql
+as $$
+  insert into public.product_stats_daily
+    (day, chain, canonical_key, avg_price, sample_count, min_price, max_price)
+  select
+    (coalesce(price_update_time, fetched_at))::date as day,
+    chain,
+    canonical_key,
+    round(avg(price)::numeric, 2) as avg_price,
+    count(*) as sample_count,
+    min(price) as min_price,
+    max(price) as max_price
+  from public.prices
+  where canonical_key is not null
+    and coalesce(price_update_time, fetched_at) >= now() - make_interval(days => days_back)
+  group by 1, 2, 3
+  on conflict (day, chain, canonical_key)
+  do update set
+    avg_price = excluded.avg_price,
+    sample_count = excluded.sample_count,
+    min_price = excluded.min_price,
+    max_price = excluded.max_price;
+$$;
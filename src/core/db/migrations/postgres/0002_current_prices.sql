@@ -0,0 +1,30 @@
+-- קבצי Price (delta): סוג הקובץ וחותמת הזמן שלו על כל שורה, וטבלת current_prices (מחיר אחרון לכל פריט בסניף).
+
+alter table public.prices add column if not exists file_type text;
+alter table public.prices add column if not exists file_at timestamp;
+
+create table if not exists public.current_prices (
+  chain text not null,
+  store_id text not null,
+  item_code text not null,
+  raw_file_id uuid not null references public.raw_files(id),
+  -- "<file_at>|<0 = PriceFull, 1 = Price>|<raw_file_id>", משווים כמחרוזת
+  version text not null,
+  sub_chain_id text,
+  bikoret_no integer,
+  barcode text,
+  item_name text not null,
+  canonical_key text,
+  price numeric(12, 2) not null,
+  unit_qty numeric,
+  unit_of_measure text,
+  price_update_time timestamp,
+  last_sale_datetime timestamp,
+  is_weighted boolean,
+  qty_in_package numeric,
+  file_type text,
+  file_at timestamp,
+  primary key (chain, store_id, item_code)
+);
+
+create index if not exists current_prices_canonical_idx on public.current_prices (canonical_key, chain);
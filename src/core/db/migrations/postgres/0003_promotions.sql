@@ -0,0 +1,30 @@
+-- מבצעים מקבצי Promo/PromoFull: שורה לכל מבצע בסניף.
+
+create table if not exists public.promotions (
+  raw_file_id uuid not null references public.raw_files(id),
+  chain text not null,
+  sub_chain_id text,
+  store_id text not null,
+  promotion_id text not null,
+  description text,
+  promotion_update_time timestamp,
+  start_at timestamp,
+  end_at timestamp,
+  min_qty numeric,
+  max_qty numeric,
+  discounted_price numeric(12, 2),
+  discounted_price_per_unit numeric(12, 2),
+  discount_rate numeric,
+  discount_type integer,
+  reward_type integer,
+  allow_multiple_discounts boolean,
+  is_weighted_promo boolean,
+  club_ids text[] not null default '{}',
+  club_only boolean not null default false,
+  is_coupon boolean,
+  item_codes text[] not null default '{}',
+  primary key (raw_file_id, promotion_id)
+);
+
+create index if not exists promotions_store_idx on public.promotions (chain, store_id, end_at);
+create index if not exists promotions_item_codes_idx on public.promotions using gin (item_codes);
@@ -0,0 +1,18 @@
+-- סניפים מקבצי Stores: סניף אחד לכל (chain, store_id), נדרס בכל קובץ חדש.
+
+create table if not exists public.stores (
+  chain text not null,
+  store_id text not null,
+  raw_file_id uuid references public.raw_files(id) on delete set null,
+  chain_id text,
+  chain_name text,
+  sub_chain_id text,
+  sub_chain_name text,
+  bikoret_no integer,
+  store_type integer,
+  store_name text,
+  address text,
+  city text,
+  zip_code text,
+  primary key (chain, store_id)
+);
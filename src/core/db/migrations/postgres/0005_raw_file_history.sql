@@ -0,0 +1,32 @@
+-- היסטוריית הופעות לכל URL (first/last seen) ו-dedup לפי תוכן:
+-- קובץ שה-sha256 שלו כבר קיים נרשם כ-status 'duplicate' עם duplicate_of, בלי העלאה ובלי פירוק.
+
+alter table public.raw_files
+  add column if not exists first_seen_at timestamptz,
+  add column if not exists last_seen_at timestamptz,
+  add column if not exists seen_count integer not null default 1,
+  add column if not exists duplicate_of uuid references public.raw_files(id) on delete set null;
+
+update public.raw_files
+set first_seen_at = coalesce(first_seen_at, fetched_at),
+    last_seen_at = coalesce(last_seen_at, fetched_at)
+where first_seen_at is null or last_seen_at is null;
+
+alter table public.raw_files
+  alter column first_seen_at set default now(),
+  alter column first_seen_at set not null,
+  alter column last_seen_at set default now(),
+  alter column last_seen_at set not null;
+
+create index if not exists raw_files_sha256_idx on public.raw_files (chain, sha256);
+
+-- הופעה נוספת של אותו קובץ (אותו URL ואותו תוכן)
+create or replace function public.mark_raw_file_seen(file_id uuid, seen_at timestamptz default now())
+returns void
+language sql
+as $$
+  update public.raw_files
+  set last_seen_at = greatest(last_seen_at, seen_at),
+      seen_count = seen_count + 1
+  where id = file_id;
+$$;
@@ -0,0 +1,20 @@
+-- תור ניסיונות חוזרים ל-raw_files שנכשלו: attempts, next_retry_at, ובאיזה שלב זה נכשל (collect / parse).
+-- קובץ שנכשל יותר מדי פעמים (או שבור לגמרי) עובר ל-status 'dead' ולא נוגעים בו יותר אוטומטית.
+
+alter table public.raw_files
+  add column if not exists attempts integer not null default 0,
+  add column if not exists next_retry_at timestamptz,
+  add column if not exists failed_step text;
+
+-- כשלונות מלפני המיגרציה מקבלים ניסיון אחד נוסף
+update public.raw_files
+set attempts = 1,
+    next_retry_at = now(),
+    -- collect: ההורדה/ההעלאה לא הצליחה (אין sha256 או קובץ ב-storage); אחרת הקובץ נשמר והפירוק נכשל
+    failed_step = case
+      when storage_path is null or sha256 is null or error like 'Storage upload failed%' then 'collect'
+      else 'parse'
+    end
+where status = 'failed' and failed_step is null;
+
+create index if not exists raw_files_retry_idx on public.raw_files (chain, status, next_retry_at);
@@ -0,0 +1,107 @@
+-- פירוק מקבילי: worker תופס קבצים (status 'parsing', claimed_by, lease_until) לפני הפירוק,
+-- כך ששני workers לא מפרקים אותו קובץ. lease שפג (worker שנפל) משחרר את הקובץ ל-worker הבא.
+-- commit של קובץ מחירים (current_prices + status) רץ בטרנזקציה אחת.
+
+alter table public.raw_files
+  add column if not exists claimed_by text,
+  add column if not exists lease_until timestamptz;
+
+create index if not exists raw_files_claim_idx on public.raw_files (chain, status, lease_until);
+
+-- עד max_files קבצים שממתינים לפירוק (downloaded, או parsing שה-lease שלו פג), החדשים קודם.
+-- skip locked: worker שתופס במקביל מדלג על השורות האלה ולוקח אחרות
+create or replace function public.claim_raw_files(
+  chain_slug text,
+  path_like text,
+  worker text,
+  now_at timestamptz,
+  lease_to timestamptz,
+  max_files integer
+)
+returns setof public.raw_files
+language sql
+as $$
+  update public.raw_files
+  set status = 'parsing', claimed_by = worker, lease_until = lease_to
+  where id in (
+    select id from public.raw_files
+    where chain = chain_slug
+      and storage_path like path_like
+      and (status = 'downloaded' or (status = 'parsing' and lease_until < now_at))
+    order by fetched_at desc
+    limit max_files
+    for update skip locked
+  )
+  returning *;
+$$;
+
+-- סוף קובץ PriceFull / Price: כל השורות שלו כבר ב-prices. בטרנזקציה אחת:
+-- מחיל אותן על current_prices (רק version חדש יותר), מוחק פריטים שירדו מהמדף (PriceFull),
+-- ומסמן את הקובץ parsed. מחזיר כמה שורות הוחלו, או null אם ה-claim כבר לא של ה-worker הזה.
+create or replace function public.commit_price_file(
+  file_id uuid,
+  worker text,
+  file_store_id text,
+  file_version text,
+  prune boolean
+)
+returns integer
+language plpgsql
+as $$
+declare
+  file_chain text;
+  applied integer;
+begin
+  select chain into file_chain
+  from public.raw_files
+  where id = file_id and status = 'parsing' and claimed_by = worker
+  for update;
+  if not found then
+    return null;
+  end if;
+
+  insert into public.current_prices (
+    chain, store_id, item_code, raw_file_id, version, sub_chain_id, bikoret_no, barcode, item_name, canonical_key,
+    price, unit_qty, unit_of_measure, price_update_time, last_sale_datetime, is_weighted, qty_in_package,
+    file_type, file_at
+  )
+  select
+    p.chain, p.store_id, p.item_code, p.raw_file_id, file_version, p.sub_chain_id, p.bikoret_no, p.barcode,
+    p.item_name, p.canonical_key, p.price, p.unit_qty, p.unit_of_measure, p.price_update_time,
+    p.last_sale_datetime, p.is_weighted, p.qty_in_package, p.file_type, p.file_at
+  from public.prices p
+  where p.raw_file_id = file_id and p.store_id = file_store_id
+  on conflict (chain, store_id, item_code) do update set
+    raw_file_id = excluded.raw_file_id,
+    version = excluded.version,
+    sub_chain_id = excluded.sub_chain_id,
+    bikoret_no = excluded.bikoret_no,
+    barcode = excluded.barcode,
+    item_name = excluded.item_name,
+    canonical_key = excluded.canonical_key,
+    price = excluded.price,
+    unit_qty = excluded.unit_qty,
+    unit_of_measure = excluded.unit_of_measure,
+    price_update_time = excluded.price_update_time,
+    last_sale_datetime = excluded.last_sale_datetime,
+    is_weighted = excluded.is_weighted,
+    qty_in_package = excluded.qty_in_package,
+    file_type = excluded.file_type,
+    file_at = excluded.file_at
+  where public.current_prices.version < excluded.version;
+  get diagnostics applied = row_count;
+
+  -- כל מה שנשאר עם version לפני ה-snapshot הזה לא הופיע בו
+  if prune then
+    delete from public.current_prices
+    where chain = file_chain and store_id = file_store_id and version < split_part(file_version, '|', 1) || '|0|';
+  end if;
+
+  update public.raw_files
+  set status = 'parsed', store_id = file_store_id, error = null, next_retry_at = null, failed_step = null,
+      claimed_by = null, lease_until = null
+  where id = file_id;
+
+  return applied;
+end;
+$$;
@@ -0,0 +1,103 @@
+-- שדות שנשלפים משם המוצר (core/products/canonical.ts): מותג, גודל יחידה ביחידות בסיס, מספר יחידות במארז
+-- ואחוז שומן. canonical_key מחושב מעכשיו במנוע הכללים (מילים ממוינות, בלי גודל ומארז).
+-- שורות קיימות מתעדכנות כשהקובץ הבא של הסניף מפורק; stats_daily של ימים קודמים נשאר עם המפתחות הישנים.
+
+alter table public.prices
+  add column if not exists brand text,
+  add column if not exists size_qty numeric,
+  add column if not exists size_unit text,
+  add column if not exists pack_count integer,
+  add column if not exists fat_pct numeric;
+
+alter table public.current_prices
+  add column if not exists brand text,
+  add column if not exists size_qty numeric,
+  add column if not exists size_unit text,
+  add column if not exists pack_count integer,
+  add column if not exists fat_pct numeric;
+
+create index if not exists current_prices_brand_idx on public.current_prices (brand) where brand is not null;
+
+-- commit_price_file מ-0009, עם שדות השם
+create or replace function public.commit_price_file(
+  file_id uuid,
+  worker text,
+  file_store_id text,
+  file_version text,
+  prune boolean
+)
+returns integer
+language plpgsql
+as $$
+declare
+  file_chain text;
+  applied integer;
+begin
+  select chain into file_chain
+  from public.raw_files
+  where id = file_id and status = 'parsing' and claimed_by = worker
+  for update;
+  if not found then
+    return null;
+  end if;
+
+  insert into public.current_prices (
+    chain, store_id, item_code, raw_file_id, version, sub_chain_id, bikoret_no, barcode, product_id, code_kind,
+    item_name, canonical_key,
+    price, unit_qty, qty_unit, unit_of_measure, price_update_time, last_sale_datetime, is_weighted, qty_in_package,
+    file_type, file_at, base_unit, base_qty, price_per_base_unit, unit_issue,
+    brand, size_qty, size_unit, pack_count, fat_pct
+  )
+  select
+    p.chain, p.store_id, p.item_code, p.raw_file_id, file_version, p.sub_chain_id, p.bikoret_no, p.barcode,
+    p.product_id, p.code_kind, p.item_name, p.canonical_key, p.price, p.unit_qty, p.qty_unit, p.unit_of_measure, p.price_update_time,
+    p.last_sale_datetime, p.is_weighted, p.qty_in_package, p.file_type, p.file_at, p.base_unit, p.base_qty,
+    p.price_per_base_unit, p.unit_issue, p.brand, p.size_qty, p.size_unit, p.pack_count, p.fat_pct
+  from public.prices p
+  where p.raw_file_id = file_id and p.store_id = file_store_id
+  on conflict (chain, store_id, item_code) do update set
+    raw_file_id = excluded.raw_file_id,
+    version = excluded.version,
+    sub_chain_id = excluded.sub_chain_id,
+    bikoret_no = excluded.bikoret_no,
+    barcode = excluded.barcode,
+    product_id = excluded.product_id,
+    code_kind = excluded.code_kind,
+    item_name = excluded.item_name,
+    canonical_key = excluded.canonical_key,
+    price = excluded.price,
+    unit_qty = excluded.unit_qty,
+    qty_unit = excluded.qty_unit,
+    unit_of_measure = excluded.unit_of_measure,
+    price_update_time = excluded.price_update_time,
+    last_sale_datetime = excluded.last_sale_datetime,
+    is_weighted = excluded.is_weighted,
+    qty_in_package = excluded.qty_in_package,
+    file_type = excluded.file_type,
+    file_at = excluded.file_at,
+    base_unit = excluded.base_unit,
+    base_qty = excluded.base_qty,
+    price_per_base_unit = excluded.price_per_base_unit,
+    unit_issue = excluded.unit_issue,
+    brand = excluded.brand,
+    size_qty = excluded.size_qty,
+    size_unit = excluded.size_unit,
+    pack_count = excluded.pack_count,
+    fat_pct = excluded.fat_pct
+  where public.current_prices.version < excluded.version;
+  get diagnostics applied = row_count;
+
+  -- כל מה שנשאר עם version לפני ה-snapshot הזה לא הופיע בו
+  if prune then
+    delete from public.current_prices
+    where chain = file_chain and store_id = file_store_id and version < split_part(file_version, '|', 1) || '|0|';
+  end if;
+
+  update public.raw_files
+  set status = 'parsed', store_id = file_store_id, error = null, next_retry_at = null, failed_step = null,
+      claimed_by = null, lease_until = null
+  where id = file_id;
+
+  return applied;
+end;
+$$;
@@ -0,0 +1,141 @@
+-- החלטות ידניות על התאמת פריט של רשת למוצר (core/products/matches.ts), שגוברות על ההתאמה האוטומטית:
+-- link = (chain, item_code) הוא המוצר (גם כשה-ItemCode שלו קוד פנימי); unlink = הוא לא המוצר הזה.
+-- product_id ב-prices / current_prices מתעדכן כשההחלטה נרשמת (smartcart matches confirm / reject) ובכל פירוק.
+
+create table if not exists public.product_matches (
+  chain text not null,
+  item_code text not null,
+  product_id text not null references public.products(id),
+  decision text not null check (decision in ('link', 'unlink')),
+  note text,
+  decided_at timestamptz not null default now(),
+  primary key (chain, item_code, product_id)
+);
+
+-- link אחד לכל היותר לכל פריט
+create unique index if not exists product_matches_link_idx
+  on public.product_matches (chain, item_code) where decision = 'link';
+
+-- המפתח שהאגרגציה מקבצת לפיו: פריט שקושר ידנית מקבל את המפתח של המוצר, ופריט שנותק ממוצר
+-- עם אותו canonical_key מקבל מפתח משלו (canonical_key #item_code)
+create or replace view public.price_match_keys as
+select
+  p.chain,
+  p.item_code,
+  p.price,
+  p.price_update_time,
+  p.fetched_at,
+  case
+    when lp.canonical_key is not null then lp.canonical_key
+    when exists (
+      select 1
+      from public.product_matches u
+      join public.products up on up.id = u.product_id
+      where u.chain = p.chain
+        and u.item_code = p.item_code
+        and u.decision = 'unlink'
+        and up.canonical_key = p.canonical_key
+    ) then p.canonical_key || ' #' || p.item_code
+    else p.canonical_key
+  end as match_key
+from public.prices p
+left join public.product_matches l
+  on l.chain = p.chain and l.item_code = p.item_code and l.decision = 'link'
+left join public.products lp on lp.id = l.product_id;
+
+-- refresh_product_stats_daily מ-0001, לפי match_key
+create or replace function public.refresh_product_stats_daily(days_back integer default 2)
+returns void
+language sql
+as $$
+  insert into public.product_stats_daily
+    (day, chain, canonical_key, avg_price, sample_count, min_price, max_price)
+  select
+    (coalesce(price_update_time, fetched_at))::date as day,
+    chain,
+    match_key,
+    round(avg(price)::numeric, 2) as avg_price,
+    count(*) as sample_count,
+    min(price) as min_price,
+    max(price) as max_price
+  from public.price_match_keys
+  where match_key is not null
+    and coalesce(price_update_time, fetched_at) >= now() - make_interval(days => days_back)
+  group by 1, 2, 3
+  on conflict (day, chain, canonical_key)
+  do update set
+    avg_price = excluded.avg_price,
+    sample_count = excluded.sample_count,
+    min_price = excluded.min_price,
+    max_price = excluded.max_price;
+$$;
+
+-- מועמדים לבדיקה: פריט בלי מוצר מול כל מוצר שיש לו פריט עם אותו canonical_key, בלי זוגות שכבר הוחלט עליהם.
+-- qty / unit: הגודל ביחידות בסיס (base_qty), או מהשם (size_qty) כשאין. rivals: כמה מוצרים מועמדים לאותו פריט
+create or replace function public.match_candidates(chain_slug text default null, max_rows integer default 1000)
+returns table (
+  chain text,
+  item_code text,
+  item_name text,
+  canonical_key text,
+  qty numeric,
+  unit text,
+  product_id text,
+  product_name text,
+  product_qty numeric,
+  product_unit text,
+  rivals integer
+)
+language sql
+stable
+as $$
+  with items as (
+    select
+      c.chain,
+      c.item_code,
+      min(c.item_name) as item_name,
+      min(c.canonical_key) as canonical_key,
+      min(coalesce(c.base_qty, c.size_qty)) as qty,
+      min(case when c.base_qty is not null then c.base_unit else c.size_unit end) as unit
+    from public.current_prices c
+    where c.product_id is null
+      and c.canonical_key is not null
+      and (chain_slug is null or c.chain = chain_slug)
+    group by c.chain, c.item_code
+  ),
+  keyed as (
+    select
+      k.canonical_key,
+      k.product_id,
+      min(coalesce(k.base_qty, k.size_qty)) as qty,
+      min(case when k.base_qty is not null then k.base_unit else k.size_unit end) as unit
+    from public.current_prices k
+    where k.product_id is not null
+      and k.canonical_key in (select i.canonical_key from items i)
+    group by k.canonical_key, k.product_id
+  )
+  select
+    i.chain,
+    i.item_code,
+    i.item_name,
+    i.canonical_key,
+    i.qty,
+    i.unit,
+    k.product_id,
+    pr.name,
+    k.qty,
+    k.unit,
+    (count(*) over (partition by i.chain, i.item_code))::integer
+  from items i
+  join keyed k on k.canonical_key = i.canonical_key
+  join public.products pr on pr.id = k.product_id
+  where not exists (
+    select 1
+    from public.product_matches m
+    where m.chain = i.chain
+      and m.item_code = i.item_code
+      and (m.decision = 'link' or m.product_id = k.product_id)
+  )
+  order by i.chain, i.item_code, k.product_id
+  limit max_rows;
+$$;
@@ -0,0 +1,39 @@
+-- מועמדים להתאמה לפי דמיון שמות (core/products/similarity.ts), במקום match_candidates מ-0011 שמצא רק
+-- canonical_key זהה. מחושבים ב-smartcart matches score לכל רשת ונשמרים כאן עד החישוב הבא.
+
+drop function if exists public.match_candidates(text, integer);
+
+create table if not exists public.product_match_candidates (
+  chain text not null,
+  item_code text not null,
+  product_id text not null references public.products(id),
+  rank integer not null,
+  confidence numeric not null,
+  detail text,
+  item_name text,
+  product_name text,
+  computed_at timestamptz not null default now(),
+  primary key (chain, item_code, product_id)
+);
+
+create index if not exists product_match_candidates_confidence_idx
+  on public.product_match_candidates (confidence desc);
+create index if not exists product_match_candidates_product_idx
+  on public.product_match_candidates (product_id);
+
+-- פריט אחד לכל (chain, item_code, product_id) מהמחירים העדכניים, עם מה שנשלף מהשם.
+-- qty / unit: הגודל ביחידות בסיס (base_qty), או מהשם (size_qty) כשאין
+create or replace view public.match_profiles as
+select
+  chain,
+  item_code,
+  product_id,
+  min(item_name) as item_name,
+  min(canonical_key) as canonical_key,
+  min(brand) as brand,
+  min(coalesce(base_qty, size_qty)) as qty,
+  min(case when base_qty is not null then base_unit else size_unit end) as unit,
+  min(fat_pct) as fat_pct
+from public.current_prices
+where canonical_key is not null
+group by chain, item_code, product_id;
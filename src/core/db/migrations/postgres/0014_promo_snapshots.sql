@@ -0,0 +1,32 @@
+-- מבצעים שבוטלו: PromoFull הוא רשימה מלאה של המבצעים בסניף, אז מבצע שלא מופיע ב-PromoFull האחרון כבר לא
+-- פעיל גם אם התאריכים שלו עוד לא עברו. לכל שורה נשמרים סוג הקובץ וחותמת הזמן שלו, ו-promo_snapshots
+-- מחזיק את החותמת של ה-PromoFull האחרון של כל סניף (גם PromoFull בלי מבצעים).
+-- current_promotions = ה-PromoFull האחרון וכל קבצי ה-Promo שאחריו. שורות מלפני המיגרציה (file_at ריק)
+-- נשארות עד ה-PromoFull הראשון של הסניף.
+
+alter table public.promotions
+  add column if not exists file_type text,
+  add column if not exists file_at timestamp;
+
+create table if not exists public.promo_snapshots (
+  chain text not null,
+  store_id text not null,
+  file_at timestamp not null,
+  primary key (chain, store_id)
+);
+
+-- PromoFull שמגיע אחרי חדש ממנו לא מחזיר את ה-snapshot אחורה
+create or replace function public.mark_promo_snapshot(chain_slug text, file_store_id text, snapshot_at timestamp)
+returns void
+language sql
+as $$
+  insert into public.promo_snapshots (chain, store_id, file_at)
+  values (chain_slug, file_store_id, snapshot_at)
+  on conflict (chain, store_id) do update set file_at = greatest(public.promo_snapshots.file_at, excluded.file_at);
+$$;
+
+create or replace view public.current_promotions as
+select p.*
+from public.promotions p
+left join public.promo_snapshots s on s.chain = p.chain and s.store_id = p.store_id
+where s.file_at is null or p.file_at >= s.file_at;
@@ -0,0 +1,54 @@
+-- אותן טבלאות כמו ב-postgres/0001_init.sql, בטיפוסים של SQLite.
+-- בוליאנים נשמרים כ-0/1, זמנים כטקסט ISO. ה-RPC ממומש ב-sqlite_repos (REFRESH_STATS_SQL).
+
+create table if not exists raw_files (
+  id text primary key,
+  chain text not null,
+  store_id text,
+  file_url text not null,
+  storage_path text,
+  sha256 text,
+  fetched_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  status text not null,
+  error text,
+  unique (chain, file_url)
+);
+
+create index if not exists raw_files_pending_idx on raw_files (chain, status, fetched_at);
+
+-- file_type / file_at נוספו ב-postgres/0002; כאן הם כבר חלק מהטבלה
+create table if not exists prices (
+  raw_file_id text not null references raw_files(id),
+  chain text not null,
+  sub_chain_id text,
+  store_id text,
+  bikoret_no integer,
+  item_code text not null,
+  barcode text,
+  item_name text not null,
+  canonical_key text,
+  price real not null,
+  unit_qty real,
+  unit_of_measure text,
+  price_update_time text,
+  last_sale_datetime text,
+  is_weighted integer,
+  qty_in_package real,
+  file_type text,
+  file_at text,
+  fetched_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  primary key (raw_file_id, item_code)
+);
+
+create index if not exists prices_canonical_idx on prices (canonical_key, chain);
+
+create table if not exists product_stats_daily (
+  day text not null,
+  chain text not null,
+  canonical_key text not null,
+  avg_price real not null,
+  sample_count integer not null,
+  min_price real not null,
+  max_price real not null,
+  primary key (day, chain, canonical_key)
+);
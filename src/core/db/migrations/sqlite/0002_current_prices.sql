@@ -0,0 +1,26 @@
+-- מחיר אחרון לכל פריט בסניף. version = "<file_at>|<0 = PriceFull, 1 = Price>|<raw_file_id>".
+
+create table if not exists current_prices (
+  chain text not null,
+  store_id text not null,
+  item_code text not null,
+  raw_file_id text not null,
+  version text not null,
+  sub_chain_id text,
+  bikoret_no integer,
+  barcode text,
+  item_name text not null,
+  canonical_key text,
+  price real not null,
+  unit_qty real,
+  unit_of_measure text,
+  price_update_time text,
+  last_sale_datetime text,
+  is_weighted integer,
+  qty_in_package real,
+  file_type text,
+  file_at text,
+  primary key (chain, store_id, item_code)
+);
+
+create index if not exists current_prices_canonical_idx on current_prices (canonical_key, chain);
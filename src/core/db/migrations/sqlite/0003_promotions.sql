@@ -0,0 +1,29 @@
+-- club_ids / item_codes נשמרים כמערך JSON.
+
+create table if not exists promotions (
+  raw_file_id text not null references raw_files(id),
+  chain text not null,
+  sub_chain_id text,
+  store_id text not null,
+  promotion_id text not null,
+  description text,
+  promotion_update_time text,
+  start_at text,
+  end_at text,
+  min_qty real,
+  max_qty real,
+  discounted_price real,
+  discounted_price_per_unit real,
+  discount_rate real,
+  discount_type integer,
+  reward_type integer,
+  allow_multiple_discounts integer,
+  is_weighted_promo integer,
+  club_ids text not null default '[]',
+  club_only integer not null default 0,
+  is_coupon integer,
+  item_codes text not null default '[]',
+  primary key (raw_file_id, promotion_id)
+);
+
+create index if not exists promotions_store_idx on promotions (chain, store_id, end_at);
@@ -0,0 +1,16 @@
+create table if not exists stores (
+  chain text not null,
+  store_id text not null,
+  raw_file_id text,
+  chain_id text,
+  chain_name text,
+  sub_chain_id text,
+  sub_chain_name text,
+  bikoret_no integer,
+  store_type integer,
+  store_name text,
+  address text,
+  city text,
+  zip_code text,
+  primary key (chain, store_id)
+);
@@ -0,0 +1,13 @@
+-- כמו postgres/0005. ב-SQLite אין default של now() ל-add column, אז sqlite_repos ממלא
+-- first_seen_at / last_seen_at ב-insert. ה-RPC mark_raw_file_seen ממומש ב-sqlite_repos.
+
+alter table raw_files add column first_seen_at text;
+alter table raw_files add column last_seen_at text;
+alter table raw_files add column seen_count integer not null default 1;
+alter table raw_files add column duplicate_of text references raw_files(id) on delete set null;
+
+update raw_files
+set first_seen_at = coalesce(first_seen_at, fetched_at),
+    last_seen_at = coalesce(last_seen_at, fetched_at);
+
+create index if not exists raw_files_sha256_idx on raw_files (chain, sha256);
@@ -0,0 +1,17 @@
+-- כמו postgres/0006.
+
+alter table raw_files add column attempts integer not null default 0;
+alter table raw_files add column next_retry_at text;
+alter table raw_files add column failed_step text;
+
+update raw_files
+set attempts = 1,
+    next_retry_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'),
+    -- collect: ההורדה/ההעלאה לא הצליחה (אין sha256 או קובץ ב-storage); אחרת הקובץ נשמר והפירוק נכשל
+    failed_step = case
+      when storage_path is null or sha256 is null or error like 'Storage upload failed%' then 'collect'
+      else 'parse'
+    end
+where status = 'failed' and failed_step is null;
+
+create index if not exists raw_files_retry_idx on raw_files (chain, status, next_retry_at);
@@ -0,0 +1,6 @@
+-- כמו postgres/0007. claim_raw_files ו-commit_price_file ממומשים ב-sqlite_repos (טרנזקציה של better-sqlite3).
+
+alter table raw_files add column claimed_by text;
+alter table raw_files add column lease_until text;
+
+create index if not exists raw_files_claim_idx on raw_files (chain, status, lease_until);
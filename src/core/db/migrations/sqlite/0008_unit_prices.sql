@@ -0,0 +1,16 @@
+-- כמו postgres/0008. commit_price_file ממומש ב-sqlite_repos (CURRENT_PRICE_COLUMNS).
+
+alter table prices add column qty_unit text;
+alter table prices add column base_unit text;
+alter table prices add column base_qty real;
+alter table prices add column price_per_base_unit real;
+alter table prices add column unit_issue text;
+
+alter table current_prices add column qty_unit text;
+alter table current_prices add column base_unit text;
+alter table current_prices add column base_qty real;
+alter table current_prices add column price_per_base_unit real;
+alter table current_prices add column unit_issue text;
+
+create index if not exists current_prices_unit_idx
+  on current_prices (canonical_key, base_unit, price_per_base_unit);
@@ -0,0 +1,20 @@
+-- כמו postgres/0009.
+
+create table if not exists products (
+  id text primary key,
+  gtin text unique,
+  gtin_format text,
+  name text not null,
+  canonical_key text,
+  created_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+alter table prices add column product_id text references products(id);
+alter table prices add column code_kind text;
+
+alter table current_prices add column product_id text references products(id);
+alter table current_prices add column code_kind text;
+
+create index if not exists prices_product_idx on prices (product_id);
+create index if not exists current_prices_product_idx on current_prices (product_id);
+create index if not exists prices_unlinked_idx on prices (item_code) where code_kind is null;
@@ -0,0 +1,15 @@
+-- כמו postgres/0010. commit_price_file ממומש ב-sqlite_repos (CURRENT_PRICE_COLUMNS).
+
+alter table prices add column brand text;
+alter table prices add column size_qty real;
+alter table prices add column size_unit text;
+alter table prices add column pack_count integer;
+alter table prices add column fat_pct real;
+
+alter table current_prices add column brand text;
+alter table current_prices add column size_qty real;
+alter table current_prices add column size_unit text;
+alter table current_prices add column pack_count integer;
+alter table current_prices add column fat_pct real;
+
+create index if not exists current_prices_brand_idx on current_prices (brand) where brand is not null;
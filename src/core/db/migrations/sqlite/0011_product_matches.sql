@@ -0,0 +1,39 @@
+-- כמו postgres/0011. refresh_product_stats_daily ו-match_candidates ממומשים ב-sqlite_repos.
+
+create table if not exists product_matches (
+  chain text not null,
+  item_code text not null,
+  product_id text not null references products(id),
+  decision text not null check (decision in ('link', 'unlink')),
+  note text,
+  decided_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  primary key (chain, item_code, product_id)
+);
+
+create unique index if not exists product_matches_link_idx
+  on product_matches (chain, item_code) where decision = 'link';
+
+create view if not exists price_match_keys as
+select
+  p.chain,
+  p.item_code,
+  p.price,
+  p.price_update_time,
+  p.fetched_at,
+  case
+    when lp.canonical_key is not null then lp.canonical_key
+    when exists (
+      select 1
+      from product_matches u
+      join products up on up.id = u.product_id
+      where u.chain = p.chain
+        and u.item_code = p.item_code
+        and u.decision = 'unlink'
+        and up.canonical_key = p.canonical_key
+    ) then p.canonical_key || ' #' || p.item_code
+    else p.canonical_key
+  end as match_key
+from prices p
+left join product_matches l
+  on l.chain = p.chain and l.item_code = p.item_code and l.decision = 'link'
+left join products lp on lp.id = l.product_id;
@@ -0,0 +1,34 @@
+-- כמו postgres/0012.
+
+create table if not exists product_match_candidates (
+  chain text not null,
+  item_code text not null,
+  product_id text not null references products(id),
+  rank integer not null,
+  confidence real not null,
+  detail text,
+  item_name text,
+  product_name text,
+  computed_at text not null default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  primary key (chain, item_code, product_id)
+);
+
+create index if not exists product_match_candidates_confidence_idx
+  on product_match_candidates (confidence desc);
+create index if not exists product_match_candidates_product_idx
+  on product_match_candidates (product_id);
+
+create view if not exists match_profiles as
+select
+  chain,
+  item_code,
+  product_id,
+  min(item_name) as item_name,
+  min(canonical_key) as canonical_key,
+  min(brand) as brand,
+  min(coalesce(base_qty, size_qty)) as qty,
+  min(case when base_qty is not null then base_unit else size_unit end) as unit,
+  min(fat_pct) as fat_pct
+from current_prices
+where canonical_key is not null
+group by chain, item_code, product_id;
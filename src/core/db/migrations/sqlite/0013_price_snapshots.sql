@@ -0,0 +1,15 @@
+-- כמו postgres/0013. הבדיקה מול price_snapshots ממומשת ב-sqlite_repos (commitPriceFile).
+
+create table if not exists price_snapshots (
+  chain text not null,
+  store_id text not null,
+  version text not null,
+  primary key (chain, store_id)
+);
+
+insert into price_snapshots (chain, store_id, version)
+select chain, store_id, max(version)
+from current_prices
+where file_type = 'PriceFull'
+group by chain, store_id
+on conflict (chain, store_id) do nothing;
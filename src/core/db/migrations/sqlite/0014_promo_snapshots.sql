@@ -0,0 +1,17 @@
+-- כמו postgres/0014.
+
+alter table promotions add column file_type text;
+alter table promotions add column file_at text;
+
+create table if not exists promo_snapshots (
+  chain text not null,
+  store_id text not null,
+  file_at text not null,
+  primary key (chain, store_id)
+);
+
+create view if not exists current_promotions as
+select p.*
+from promotions p
+left join promo_snapshots s on s.chain = p.chain and s.store_id = p.store_id
+where s.file_at is null or p.file_at >= s.file_at;
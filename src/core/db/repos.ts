@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSqliteRepos } from "./sqlite_repos";
+import { createSupabaseRepos } from "./supabase_repos";
+import type {
+  CurrentPriceRow,
+  FailedStep,
+  MatchCandidateRow,
+  MatchProfile,
+  PriceRow,
+  ProductLink,
+  ProductMatchRow,
+  ProductRow,
+  PromotionRow,
+  RawFileInsert,
+  RawFilePatch,
+  RawFileRecord,
+  RawFileStatus,
+  StatsDailyRow,
+  StoreRow,
+} from "./types";
+
+/**
+ * שכבת repositories מעל הטבלאות של ה-pipeline.
+ * שני מימושים: Supabase (ברירת מחדל) ו-SQLite מקומי (DB_BACKEND=sqlite) להרצה בלי service-role key.
+ */
+
+export type ClaimQuery = {
+  chain: string;
+  storagePathLike: string;
+  worker: string;
+  now: string;
+  leaseUntil: string;
+  limit: number;
+};
+
+export type RawFilesRepo = {
+  getById(id: string): Promise<RawFileRecord | null>;
+  findByUrl(chain: string, fileUrl: string): Promise<RawFileRecord | null>;
+  findBySha(chain: string, sha256: string): Promise<RawFileRecord | null>; // המקור (downloaded/parsing/parsed) הראשון עם התוכן הזה
+  markSeen(id: string, seenAt: string): Promise<void>; // last_seen_at + seen_count++
+  insert(row: RawFileInsert): Promise<void>;
+  upsertByUrl(row: RawFileInsert): Promise<void>; // conflict: chain,file_url
+  // downloaded (או parsing שה-lease שלו פג) -> parsing של worker, החדשים קודם. שני workers לא יקבלו אותו קובץ
+  claimPending(q: ClaimQuery): Promise<RawFileRecord[]>;
+  renewLease(id: string, worker: string, leaseUntil: string): Promise<boolean>; // false: הקובץ כבר לא של ה-worker
+  finishClaim(id: string, worker: string, patch: RawFilePatch): Promise<boolean>; // patch + שחרור, רק אם עדיין שלו
+  latestByPath(chain: string, storagePathLike: string): Promise<RawFileRecord | null>;
+  listByStatus(q: { chain: string; status: RawFileStatus; limit: number }): Promise<RawFileRecord[]>; // החדשים קודם
+  countByStatus(chain: string): Promise<Record<RawFileStatus, number>>;
+  // failed שה-next_retry_at שלהם עבר, הוותיקים קודם
+  listRetryable(q: { chain: string; step: FailedStep; now: string; limit: number }): Promise<RawFileRecord[]>;
+  update(id: string, patch: RawFilePatch): Promise<void>;
+};
+
+export type PricesRepo = {
+  upsert(rows: PriceRow[]): Promise<void>; // conflict: raw_file_id,item_code
+  deleteByRawFile(rawFileId: string): Promise<void>; // ביטול קובץ שהפירוק שלו לא הושלם
+  // commit_price_file: current_prices + status parsed בטרנזקציה אחת. null: ה-claim כבר לא של ה-worker
+  commitFile(q: PriceFileCommit): Promise<number | null>;
+  // שורות מלפני products (code_kind ריק), לקישור ב-backfillProductLinks
+  listUnlinked(limit: number): Promise<Pick<PriceRow, "item_code" | "item_name" | "canonical_key">[]>;
+  linkItemCode(itemCode: string, link: ProductLink): Promise<void>; // כל השורות של ה-item_code, גם ב-current_prices
+  listCurrentByProduct(productId: string): Promise<CurrentPriceRow[]>; // המחיר העדכני בכל סניף, הזול קודם
+  // product_id של כל השורות של הפריט ברשת (from: רק שורות שמצביעות עליו). מחזיר כמה שורות current_prices השתנו
+  setItemProduct(chain: string, itemCode: string, productId: string | null, from?: string): Promise<number>;
+  // פריט אחד לכל (chain, item_code) ב-current_prices (view match_profiles); linked: עם product_id או בלי
+  listMatchProfiles(q: { chain?: string; linked: boolean }): Promise<MatchProfile[]>;
+  listCurrentByItem(chain: string, itemCode: string): Promise<CurrentPriceRow[]>; // הזול קודם
+  // canonical_key מכיל כל אחת מהמילים (גם כחלק ממילה; הסינון למילים שלמות אצל הקורא)
+  listCurrentByKeyWords(words: string[], limit: number): Promise<CurrentPriceRow[]>;
+};
+
+export type ProductsRepo = {
+  upsert(rows: ProductRow[]): Promise<void>; // conflict: id; מוצר קיים לא משתנה
+  getById(id: string): Promise<ProductRow | null>;
+};
+
+// החלטות ידניות על התאמת פריטים למוצרים (core/products/matches.ts)
+export type MatchesRepo = {
+  // conflict: chain,item_code,product_id; link מחליף link קודם של הפריט. המועמדים שההחלטה סוגרת נמחקים
+  decide(row: ProductMatchRow): Promise<void>;
+  list(q: { chain?: string; limit?: number }): Promise<ProductMatchRow[]>; // האחרונות קודם; בלי limit: הכול
+  replaceCandidates(chain: string, rows: MatchCandidateRow[]): Promise<void>; // כל המועמדים של הרשת
+  // הסבירים קודם; below / min: confidence < below, >= min
+  candidates(q: {
+    chain?: string;
+    productId?: string;
+    below?: number;
+    min?: number;
+    limit: number;
+  }): Promise<MatchCandidateRow[]>;
+};
+
+export type PriceFileCommit = {
+  rawFileId: string;
+  worker: string;
+  storeId: string;
+  version: string; // priceVersion של הקובץ
+  prune: boolean; // PriceFull: למחוק פריטים שלא הופיעו בו
+};
+
+export type PromotionsRepo = {
+  upsert(rows: PromotionRow[]): Promise<void>; // conflict: raw_file_id,promotion_id
+  deleteByRawFile(rawFileId: string): Promise<void>;
+  // PromoFull של הסניף: file_at שלו נשמר ב-promo_snapshots, אם הוא החדש ביותר
+  markSnapshot(q: { chain: string; storeId: string; fileAt: string }): Promise<void>;
+  // מבצעים שחלים על לפחות אחד מה-item_codes ופעילים ב-at ("YYYY-MM-DD HH:MM:SS"), מה-PromoFull האחרון
+  // של כל סניף ואילך (current_promotions)
+  listActive(q: { itemCodes: string[]; at: string; chain?: string }): Promise<PromotionRow[]>;
+};
+
+export type StoresRepo = {
+  upsert(rows: StoreRow[]): Promise<void>; // conflict: chain,store_id
+  list(q: { chain?: string }): Promise<StoreRow[]>;
+};
+
+export type StatsRepo = {
+  refreshDaily(daysBack: number): Promise<void>;
+  listDaily(q: { chain?: string; day?: string; limit?: number }): Promise<StatsDailyRow[]>;
+};
+
+export type Repos = {
+  backend: "supabase" | "sqlite";
+  rawFiles: RawFilesRepo;
+  prices: PricesRepo;
+  products: ProductsRepo;
+  matches: MatchesRepo;
+  promotions: PromotionsRepo;
+  stores: StoresRepo;
+  stats: StatsRepo;
+  close(): Promise<void>;
+};
+
+export const DEFAULT_SQLITE_PATH = "data/smartcart.sqlite";
+
+/**
+ * DB_BACKEND=sqlite -> קובץ SQLITE_PATH (ברירת מחדל data/smartcart.sqlite)
+ * DB_BACKEND=supabase (ברירת מחדל) -> ה-client שהועבר
+ */
+export function reposFromEnv(supabase: SupabaseClient | null): Repos {
+  if ((process.env.DB_BACKEND ?? "supabase") === "sqlite") {
+    return createSqliteRepos(process.env.SQLITE_PATH ?? DEFAULT_SQLITE_PATH);
+  }
+  if (!supabase) throw new Error("DB_BACKEND=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+  return createSupabaseRepos(supabase);
+}
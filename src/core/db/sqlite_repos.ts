@@ -0,0 +1,531 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { applySqliteMigrations } from "./migrations";
+import type { PriceFileCommit, Repos } from "./repos";
+import {
+  RAW_FILE_STATUSES,
+  type CurrentPriceRow,
+  type MatchCandidateRow,
+  type MatchProfile,
+  type PriceRow,
+  type ProductMatchRow,
+  type ProductRow,
+  type PromotionRow,
+  type RawFileRecord,
+  type RawFileStatus,
+  type StatsDailyRow,
+  type StoreRow,
+} from "./types";
+
+/**
+ * מימוש SQLite מוטמע (better-sqlite3) לאותם repositories, להרצה ב-CI ועל לפטופ בלי Supabase.
+ * בוליאנים נשמרים כ-0/1 ומערכים (club_ids, item_codes) כ-JSON.
+ * הסכמה עצמה ב-migrations/sqlite; מיגרציות שממתינות רצות אוטומטית בפתיחת הקובץ.
+ */
+
+// אותה לוגיקה כמו refresh_product_stats_daily ב-Postgres
+const REFRESH_STATS_SQL = `
+insert into product_stats_daily
+  (day, chain, canonical_key, avg_price, sample_count, min_price, max_price)
+select
+  date(coalesce(price_update_time, fetched_at)) as day,
+  chain,
+  match_key,
+  round(avg(price), 2) as avg_price,
+  count(*) as sample_count,
+  min(price) as min_price,
+  max(price) as max_price
+from price_match_keys
+where match_key is not null
+  and date(coalesce(price_update_time, fetched_at)) >= date('now', ?)
+group by 1, 2, 3
+on conflict (day, chain, canonical_key)
+do update set
+  avg_price = excluded.avg_price,
+  sample_count = excluded.sample_count,
+  min_price = excluded.min_price,
+  max_price = excluded.max_price
+`;
+
+// עמודות current_prices שמועתקות מ-prices ב-commitFile (בנוסף ל-version)
+const CURRENT_PRICE_COLUMNS = [
+  "chain",
+  "store_id",
+  "item_code",
+  "raw_file_id",
+  "sub_chain_id",
+  "bikoret_no",
+  "barcode",
+  "product_id",
+  "code_kind",
+  "item_name",
+  "canonical_key",
+  "price",
+  "unit_qty",
+  "qty_unit",
+  "unit_of_measure",
+  "price_update_time",
+  "last_sale_datetime",
+  "is_weighted",
+  "qty_in_package",
+  "file_type",
+  "file_at",
+  "base_unit",
+  "base_qty",
+  "price_per_base_unit",
+  "unit_issue",
+  "brand",
+  "size_qty",
+  "size_unit",
+  "pack_count",
+  "fat_pct",
+];
+
+// אותה לוגיקה כמו commit_price_file ב-Postgres (בלי ה-claim וה-prune, שרצים לידו באותה טרנזקציה)
+const APPLY_CURRENT_SQL = `
+insert into current_prices (${CURRENT_PRICE_COLUMNS.join(", ")}, version)
+select ${CURRENT_PRICE_COLUMNS.map((c) => `p.${c}`).join(", ")}, @version
+from prices p
+where p.raw_file_id = @rawFileId and p.store_id = @storeId
+on conflict (chain, store_id, item_code) do update set
+  ${[...CURRENT_PRICE_COLUMNS.slice(3), "version"].map((c) => `${c} = excluded.${c}`).join(",\n  ")}
+where current_prices.version < excluded.version
+`;
+
+// ההפך מ-toSqlValue לשורת promotions
+function promotionFromSql(r: Record<string, any>): PromotionRow {
+  const bool = (v: any) => (v == null ? null : !!v);
+  return {
+    ...r,
+    allow_multiple_discounts: bool(r.allow_multiple_discounts),
+    is_weighted_promo: bool(r.is_weighted_promo),
+    is_coupon: bool(r.is_coupon),
+    club_only: !!r.club_only,
+    club_ids: JSON.parse(r.club_ids),
+    item_codes: JSON.parse(r.item_codes),
+  } as PromotionRow;
+}
+
+function toSqlValue(v: any): any {
+  if (v === undefined) return null;
+  if (typeof v === "boolean") return v ? 1 : 0;
+  if (Array.isArray(v) || (v !== null && typeof v === "object")) return JSON.stringify(v);
+  return v;
+}
+
+export function createSqliteRepos(dbPath: string): Repos {
+  if (dbPath !== ":memory:") fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  // כמה parser workers על אותו קובץ: מחכים לנעילה במקום SQLITE_BUSY
+  db.pragma("busy_timeout = 10000");
+  applySqliteMigrations(db);
+
+  // insert ... on conflict do update לכל העמודות שאינן חלק מהמפתח (ולא ב-immutable)
+  function upsertRows(table: string, rows: Record<string, any>[], conflict: string[], immutable: string[] = []) {
+    if (!rows.length) return;
+
+    const cols = Object.keys(rows[0]);
+    const updates = cols
+      .filter((c) => !conflict.includes(c) && !immutable.includes(c))
+      .map((c) => `${c} = excluded.${c}`);
+    const stmt = db.prepare(
+      `insert into ${table} (${cols.join(", ")}) values (${cols.map((c) => `@${c}`).join(", ")})
+       on conflict (${conflict.join(", ")}) ${updates.length ? `do update set ${updates.join(", ")}` : "do nothing"}`
+    );
+
+    db.transaction((batch: Record<string, any>[]) => {
+      for (const r of batch) {
+        const params: Record<string, any> = {};
+        for (const c of cols) params[c] = toSqlValue(r[c]);
+        stmt.run(params);
+      }
+    })(rows);
+  }
+
+  function insertRawFile(row: Record<string, any>, onConflictUpdate: boolean) {
+    const seenAt = row.fetched_at ?? new Date().toISOString();
+    const full = { id: crypto.randomUUID(), first_seen_at: seenAt, last_seen_at: seenAt, ...row };
+    // id לא משתנה ב-conflict, כדי לא לשבור FK מ-prices; ההיסטוריה מתעדכנת רק ב-markSeen
+    const immutable = ["id", "first_seen_at", "last_seen_at"];
+    if (onConflictUpdate) upsertRows("raw_files", [full], ["chain", "file_url"], immutable);
+    else {
+      const cols = Object.keys(full);
+      db.prepare(`insert into raw_files (${cols.join(", ")}) values (${cols.map((c) => `@${c}`).join(", ")})`).run(
+        Object.fromEntries(cols.map((c) => [c, toSqlValue((full as any)[c])]))
+      );
+    }
+  }
+
+  function updateRawFile(id: string, patch: Record<string, any>, where = "", params: Record<string, any> = {}) {
+    const cols = Object.keys(patch);
+    if (!cols.length) return 0;
+    return db
+      .prepare(`update raw_files set ${cols.map((c) => `${c} = @${c}`).join(", ")} where id = @id ${where}`)
+      .run({ ...Object.fromEntries(cols.map((c) => [c, toSqlValue(patch[c])])), ...params, id }).changes;
+  }
+
+  // כמו claim_raw_files ב-Postgres; update אחד הוא אטומי, ו-busy_timeout מסדר תהליכים מקבילים
+  const claimStmt = db.prepare(
+    `update raw_files set status = 'parsing', claimed_by = @worker, lease_until = @leaseUntil
+     where id in (
+       select id from raw_files
+       where chain = @chain and storage_path like @storagePathLike
+         and (status = 'downloaded' or (status = 'parsing' and lease_until < @now))
+       order by fetched_at desc limit @limit
+     )
+     returning *`
+  );
+
+  const commitPriceFile = db.transaction((q: PriceFileCommit): number | null => {
+    const file = db
+      .prepare("select chain from raw_files where id = ? and status = 'parsing' and claimed_by = ?")
+      .get(q.rawFileId, q.worker) as { chain: string } | undefined;
+    if (!file) return null;
+
+    const { version, rawFileId, storeId } = q;
+    const snapshot = db
+      .prepare("select version from price_snapshots where chain = ? and store_id = ?")
+      .get(file.chain, storeId) as { version: string } | undefined;
+    // קובץ מלפני ה-PriceFull האחרון של הסניף לא משנה את current_prices (כמו ב-commit_price_file)
+    const stale = !!snapshot && version < snapshot.version;
+    const applied = stale ? 0 : db.prepare(APPLY_CURRENT_SQL).run({ version, rawFileId, storeId }).changes;
+
+    // כל מה שנשאר עם version לפני ה-snapshot הזה לא הופיע בו
+    if (q.prune && !stale) {
+      db.prepare(
+        `insert into price_snapshots (chain, store_id, version) values (?, ?, ?)
+         on conflict (chain, store_id) do update set version = excluded.version`
+      ).run(file.chain, storeId, version);
+      db.prepare("delete from current_prices where chain = ? and store_id = ? and version < ?").run(
+        file.chain,
+        q.storeId,
+        `${q.version.split("|")[0]}|0|`
+      );
+    }
+
+    updateRawFile(q.rawFileId, {
+      status: "parsed",
+      store_id: q.storeId,
+      error: null,
+      next_retry_at: null,
+      failed_step: null,
+      claimed_by: null,
+      lease_until: null,
+    });
+    return applied;
+  });
+
+  return {
+    backend: "sqlite",
+
+    rawFiles: {
+      async getById(id) {
+        const row = db.prepare("select * from raw_files where id = ?").get(id);
+        return (row as RawFileRecord | undefined) ?? null;
+      },
+
+      async findByUrl(chain, fileUrl) {
+        const row = db.prepare("select * from raw_files where chain = ? and file_url = ? limit 1").get(chain, fileUrl);
+        return (row as RawFileRecord | undefined) ?? null;
+      },
+
+      async findBySha(chain, sha256) {
+        const row = db
+          .prepare(
+            `select * from raw_files
+             where chain = ? and sha256 = ? and storage_path is not null
+               and status in ('downloaded', 'parsing', 'parsed')
+             order by fetched_at limit 1`
+          )
+          .get(chain, sha256);
+        return (row as RawFileRecord | undefined) ?? null;
+      },
+
+      // כמו mark_raw_file_seen ב-Postgres
+      async markSeen(id, seenAt) {
+        db.prepare(
+          `update raw_files set last_seen_at = max(coalesce(last_seen_at, ''), ?), seen_count = seen_count + 1
+           where id = ?`
+        ).run(seenAt, id);
+      },
+
+      async insert(row) {
+        insertRawFile(row, false);
+      },
+
+      async upsertByUrl(row) {
+        insertRawFile(row, true);
+      },
+
+      async claimPending(q) {
+        const rows = claimStmt.all(q) as RawFileRecord[];
+        return rows.sort((a, b) => String(b.fetched_at).localeCompare(String(a.fetched_at)));
+      },
+
+      async renewLease(id, worker, leaseUntil) {
+        const where = "and status = 'parsing' and claimed_by = @worker";
+        return updateRawFile(id, { lease_until: leaseUntil }, where, { worker }) > 0;
+      },
+
+      async finishClaim(id, worker, patch) {
+        const where = "and status = 'parsing' and claimed_by = @worker";
+        return updateRawFile(id, { ...patch, claimed_by: null, lease_until: null }, where, { worker }) > 0;
+      },
+
+      async latestByPath(chain, storagePathLike) {
+        const row = db
+          .prepare("select * from raw_files where chain = ? and storage_path like ? order by fetched_at desc limit 1")
+          .get(chain, storagePathLike);
+        return (row as RawFileRecord | undefined) ?? null;
+      },
+
+      async listByStatus(q) {
+        return db
+          .prepare("select * from raw_files where chain = ? and status = ? order by fetched_at desc limit ?")
+          .all(q.chain, q.status, q.limit) as RawFileRecord[];
+      },
+
+      async countByStatus(chain) {
+        const rows = db
+          .prepare("select status, count(*) as n from raw_files where chain = ? group by status")
+          .all(chain) as { status: RawFileStatus; n: number }[];
+        const out = Object.fromEntries(RAW_FILE_STATUSES.map((s) => [s, 0])) as Record<RawFileStatus, number>;
+        for (const r of rows) out[r.status] = r.n;
+        return out;
+      },
+
+      async listRetryable(q) {
+        return db
+          .prepare(
+            `select * from raw_files
+             where chain = ? and status = 'failed' and failed_step = ? and next_retry_at <= ?
+             order by next_retry_at limit ?`
+          )
+          .all(q.chain, q.step, q.now, q.limit) as RawFileRecord[];
+      },
+
+      async update(id, patch) {
+        updateRawFile(id, patch);
+      },
+    },
+
+    prices: {
+      async upsert(rows) {
+        upsertRows("prices", rows, ["raw_file_id", "item_code"]);
+      },
+
+      async deleteByRawFile(rawFileId) {
+        db.prepare("delete from prices where raw_file_id = ?").run(rawFileId);
+      },
+
+      async commitFile(q) {
+        return commitPriceFile(q);
+      },
+
+      async listUnlinked(limit) {
+        return db
+          .prepare("select item_code, item_name, canonical_key from prices where code_kind is null limit ?")
+          .all(limit) as PriceRow[];
+      },
+
+      async linkItemCode(itemCode, link) {
+        db.transaction(() => {
+          for (const table of ["prices", "current_prices"]) {
+            db.prepare(
+              `update ${table} set barcode = @barcode, product_id = @product_id, code_kind = @code_kind
+               where item_code = @itemCode`
+            ).run({ ...link, itemCode });
+          }
+        })();
+      },
+
+      async listCurrentByProduct(productId) {
+        return db
+          .prepare("select * from current_prices where product_id = ? order by price, chain, store_id")
+          .all(productId) as CurrentPriceRow[];
+      },
+
+      async setItemProduct(chain, itemCode, productId, from) {
+        let changed = 0;
+        db.transaction(() => {
+          for (const table of ["prices", "current_prices"]) {
+            changed = db
+              .prepare(
+                `update ${table} set product_id = @productId
+                 where chain = @chain and item_code = @itemCode
+                   and (@from is null or product_id = @from) and product_id is not @productId`
+              )
+              .run({ chain, itemCode, productId, from: from ?? null }).changes;
+          }
+        })();
+        return changed;
+      },
+
+      async listMatchProfiles(q) {
+        return db
+          .prepare(
+            `select * from match_profiles
+             where product_id is ${q.linked ? "not null" : "null"} and (@chain is null or chain = @chain)`
+          )
+          .all({ chain: q.chain ?? null }) as MatchProfile[];
+      },
+
+      async listCurrentByItem(chain, itemCode) {
+        return db
+          .prepare("select * from current_prices where chain = ? and item_code = ? order by price, store_id")
+          .all(chain, itemCode) as CurrentPriceRow[];
+      },
+
+      async listCurrentByKeyWords(words, limit) {
+        if (!words.length) return [];
+        return db
+          .prepare(
+            `select * from current_prices where ${words.map(() => "canonical_key like ?").join(" and ")}
+             order by price limit ?`
+          )
+          .all(...words.map((w) => `%${w}%`), limit) as CurrentPriceRow[];
+      },
+    },
+
+    matches: {
+      async decide(row) {
+        db.transaction(() => {
+          if (row.decision === "link") {
+            db.prepare(
+              `delete from product_matches
+               where chain = ? and item_code = ? and decision = 'link' and product_id <> ?`
+            ).run(row.chain, row.item_code, row.product_id);
+          }
+          upsertRows("product_matches", [row], ["chain", "item_code", "product_id"]);
+          db.prepare(
+            `delete from product_match_candidates
+             where chain = @chain and item_code = @item_code and (@decision = 'link' or product_id = @product_id)`
+          ).run({ chain: row.chain, item_code: row.item_code, decision: row.decision, product_id: row.product_id });
+        })();
+      },
+
+      async list(q) {
+        return db
+          .prepare(
+            `select * from product_matches where (@chain is null or chain = @chain)
+             order by decided_at desc limit @limit`
+          )
+          .all({ chain: q.chain ?? null, limit: q.limit ?? -1 }) as ProductMatchRow[];
+      },
+
+      async replaceCandidates(chain, rows) {
+        db.transaction(() => {
+          db.prepare("delete from product_match_candidates where chain = ?").run(chain);
+          upsertRows("product_match_candidates", rows, ["chain", "item_code", "product_id"]);
+        })();
+      },
+
+      async candidates(q) {
+        return db
+          .prepare(
+            `select * from product_match_candidates
+             where (@chain is null or chain = @chain) and (@productId is null or product_id = @productId)
+               and (@below is null or confidence < @below) and (@min is null or confidence >= @min)
+             order by confidence desc, chain, item_code, rank limit @limit`
+          )
+          .all({
+            chain: q.chain ?? null,
+            productId: q.productId ?? null,
+            below: q.below ?? null,
+            min: q.min ?? null,
+            limit: q.limit,
+          }) as MatchCandidateRow[];
+      },
+    },
+
+    products: {
+      async upsert(rows) {
+        upsertRows("products", rows, ["id"], Object.keys(rows[0] ?? {}));
+      },
+
+      async getById(id) {
+        const row = db.prepare("select id, gtin, gtin_format, name, canonical_key from products where id = ?").get(id);
+        return (row as ProductRow | undefined) ?? null;
+      },
+    },
+
+    promotions: {
+      async upsert(rows) {
+        upsertRows("promotions", rows, ["raw_file_id", "promotion_id"]);
+      },
+
+      async deleteByRawFile(rawFileId) {
+        db.prepare("delete from promotions where raw_file_id = ?").run(rawFileId);
+      },
+
+      async markSnapshot(q) {
+        db.prepare(
+          `insert into promo_snapshots (chain, store_id, file_at) values (@chain, @storeId, @fileAt)
+           on conflict (chain, store_id) do update set file_at = max(file_at, excluded.file_at)`
+        ).run(q);
+      },
+
+      async listActive(q) {
+        if (!q.itemCodes.length) return [];
+        const rows = db
+          .prepare(
+            `select * from current_promotions p
+             where (@chain is null or chain = @chain)
+               and (start_at is null or start_at <= @at) and (end_at is null or end_at >= @at)
+               and exists (
+                 select 1 from json_each(p.item_codes) i
+                 where i.value in (select value from json_each(@itemCodes))
+               )`
+          )
+          .all({ chain: q.chain ?? null, at: q.at, itemCodes: JSON.stringify(q.itemCodes) }) as Record<string, any>[];
+        return rows.map(promotionFromSql);
+      },
+    },
+
+    stores: {
+      async upsert(rows) {
+        upsertRows("stores", rows, ["chain", "store_id"]);
+      },
+
+      async list(q) {
+        return db
+          .prepare("select * from stores where (@chain is null or chain = @chain) order by chain, store_id")
+          .all({ chain: q.chain ?? null }) as StoreRow[];
+      },
+    },
+
+    stats: {
+      async refreshDaily(daysBack) {
+        db.prepare(REFRESH_STATS_SQL).run(`-${daysBack} days`);
+      },
+
+      async listDaily(q) {
+        const where: string[] = [];
+        const params: any[] = [];
+        if (q.chain) {
+          where.push("chain = ?");
+          params.push(q.chain);
+        }
+        if (q.day) {
+          where.push("day = ?");
+          params.push(q.day);
+        }
+
+        return db
+          .prepare(
+            `select * from product_stats_daily ${where.length ? `where ${where.join(" and ")}` : ""}
+             order by day desc limit ?`
+          )
+          .all(...params, q.limit ?? 100) as StatsDailyRow[];
+      },
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,452 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Repos } from "./repos";
+import {
+  RAW_FILE_STATUSES,
+  type CurrentPriceRow,
+  type MatchCandidateRow,
+  type MatchProfile,
+  type PriceRow,
+  type ProductMatchRow,
+  type ProductRow,
+  type PromotionRow,
+  type RawFileRecord,
+  type RawFileStatus,
+  type StatsDailyRow,
+  type StoreRow,
+} from "./types";
+
+// PostgREST מחזיר עד 1000 שורות לבקשה
+const PAGE_SIZE = 1000;
+
+const LIST_COLUMNS =
+  "id, chain, store_id, file_url, storage_path, sha256, fetched_at, status, error, first_seen_at, last_seen_at, seen_count, duplicate_of, attempts, next_retry_at, failed_step, claimed_by, lease_until";
+
+/**
+ * המימוש הקיים: supabase-js query builder מול הטבלאות ב-Postgres.
+ */
+export function createSupabaseRepos(supabase: SupabaseClient): Repos {
+  return {
+    backend: "supabase",
+
+    rawFiles: {
+      async getById(id) {
+        const { data, error } = await supabase.from("raw_files").select(LIST_COLUMNS).eq("id", id).maybeSingle();
+        if (error) throw error;
+        return (data as RawFileRecord | null) ?? null;
+      },
+
+      async findByUrl(chain, fileUrl) {
+        const { data, error } = await supabase
+          .from("raw_files")
+          .select(LIST_COLUMNS)
+          .eq("chain", chain)
+          .eq("file_url", fileUrl)
+          .limit(1);
+        if (error) throw error;
+        return (data?.[0] as RawFileRecord | undefined) ?? null;
+      },
+
+      async findBySha(chain, sha256) {
+        const { data, error } = await supabase
+          .from("raw_files")
+          .select(LIST_COLUMNS)
+          .eq("chain", chain)
+          .eq("sha256", sha256)
+          .in("status", ["downloaded", "parsing", "parsed"])
+          .not("storage_path", "is", null)
+          .order("fetched_at", { ascending: true })
+          .limit(1);
+        if (error) throw error;
+        return (data?.[0] as RawFileRecord | undefined) ?? null;
+      },
+
+      // RPC כדי שה-seen_count++ יהיה אטומי
+      async markSeen(id, seenAt) {
+        const { error } = await supabase.rpc("mark_raw_file_seen", { file_id: id, seen_at: seenAt });
+        if (error) throw error;
+      },
+
+      async insert(row) {
+        const { error } = await supabase.from("raw_files").insert(row);
+        if (error) throw error;
+      },
+
+      async upsertByUrl(row) {
+        // ❌ לא שולחים id בכלל, כדי לא לשבור FK ל-prices
+        const { error } = await supabase.from("raw_files").upsert(row, { onConflict: "chain,file_url" });
+        if (error) throw error;
+      },
+
+      // RPC: select ... for update skip locked + update בטרנזקציה אחת
+      async claimPending(q) {
+        const { data, error } = await supabase.rpc("claim_raw_files", {
+          chain_slug: q.chain,
+          path_like: q.storagePathLike,
+          worker: q.worker,
+          now_at: q.now,
+          lease_to: q.leaseUntil,
+          max_files: q.limit,
+        });
+        if (error) throw error;
+        const rows = (data ?? []) as RawFileRecord[];
+        return rows.sort((a, b) => String(b.fetched_at).localeCompare(String(a.fetched_at)));
+      },
+
+      async renewLease(id, worker, leaseUntil) {
+        const { data, error } = await supabase
+          .from("raw_files")
+          .update({ lease_until: leaseUntil })
+          .eq("id", id)
+          .eq("status", "parsing")
+          .eq("claimed_by", worker)
+          .select("id");
+        if (error) throw error;
+        return (data ?? []).length > 0;
+      },
+
+      async finishClaim(id, worker, patch) {
+        const { data, error } = await supabase
+          .from("raw_files")
+          .update({ ...patch, claimed_by: null, lease_until: null })
+          .eq("id", id)
+          .eq("status", "parsing")
+          .eq("claimed_by", worker)
+          .select("id");
+        if (error) throw error;
+        return (data ?? []).length > 0;
+      },
+
+      async latestByPath(chain, storagePathLike) {
+        const { data, error } = await supabase
+          .from("raw_files")
+          .select(LIST_COLUMNS)
+          .eq("chain", chain)
+          .like("storage_path", storagePathLike)
+          .order("fetched_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+        return (data as RawFileRecord | null) ?? null;
+      },
+
+      async listByStatus(q) {
+        const { data, error } = await supabase
+          .from("raw_files")
+          .select(LIST_COLUMNS)
+          .eq("chain", q.chain)
+          .eq("status", q.status)
+          .order("fetched_at", { ascending: false })
+          .limit(q.limit);
+        if (error) throw error;
+        return (data ?? []) as RawFileRecord[];
+      },
+
+      // PostgREST בלי aggregates: count (head) נפרד לכל status
+      async countByStatus(chain) {
+        const out = {} as Record<RawFileStatus, number>;
+        for (const status of RAW_FILE_STATUSES) {
+          const { count, error } = await supabase
+            .from("raw_files")
+            .select("id", { count: "exact", head: true })
+            .eq("chain", chain)
+            .eq("status", status);
+          if (error) throw error;
+          out[status] = count ?? 0;
+        }
+        return out;
+      },
+
+      async listRetryable(q) {
+        const { data, error } = await supabase
+          .from("raw_files")
+          .select(LIST_COLUMNS)
+          .eq("chain", q.chain)
+          .eq("status", "failed")
+          .eq("failed_step", q.step)
+          .lte("next_retry_at", q.now)
+          .order("next_retry_at", { ascending: true })
+          .limit(q.limit);
+        if (error) throw error;
+        return (data ?? []) as RawFileRecord[];
+      },
+
+      async update(id, patch) {
+        const { error } = await supabase.from("raw_files").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+    },
+
+    prices: {
+      async upsert(rows) {
+        const { error } = await supabase.from("prices").upsert(rows, { onConflict: "raw_file_id,item_code" });
+        if (error) throw error;
+      },
+
+      async deleteByRawFile(rawFileId) {
+        const { error } = await supabase.from("prices").delete().eq("raw_file_id", rawFileId);
+        if (error) throw error;
+      },
+
+      async commitFile(q) {
+        const { data, error } = await supabase.rpc("commit_price_file", {
+          file_id: q.rawFileId,
+          worker: q.worker,
+          file_store_id: q.storeId,
+          file_version: q.version,
+          prune: q.prune,
+        });
+        if (error) throw error;
+        return data == null ? null : Number(data);
+      },
+
+      async listUnlinked(limit) {
+        const { data, error } = await supabase
+          .from("prices")
+          .select("item_code, item_name, canonical_key")
+          .is("code_kind", null)
+          .limit(limit);
+        if (error) throw error;
+        return (data ?? []) as PriceRow[];
+      },
+
+      async linkItemCode(itemCode, link) {
+        for (const table of ["prices", "current_prices"]) {
+          const { error } = await supabase.from(table).update(link).eq("item_code", itemCode);
+          if (error) throw error;
+        }
+      },
+
+      async listCurrentByProduct(productId) {
+        const { data, error } = await supabase
+          .from("current_prices")
+          .select("*")
+          .eq("product_id", productId)
+          .order("price", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as CurrentPriceRow[];
+      },
+
+      async setItemProduct(chain, itemCode, productId, from) {
+        let changed = 0;
+        for (const table of ["prices", "current_prices"]) {
+          let query = supabase
+            .from(table)
+            .update({ product_id: productId }, { count: "exact" })
+            .eq("chain", chain)
+            .eq("item_code", itemCode);
+          query = from ? query.eq("product_id", from) : query.or(`product_id.is.null,product_id.neq.${productId}`);
+          const { error, count } = await query;
+          if (error) throw error;
+          changed = count ?? 0;
+        }
+        return changed;
+      },
+
+      async listMatchProfiles(q) {
+        const out: MatchProfile[] = [];
+        for (let from = 0; ; from += PAGE_SIZE) {
+          let query = supabase
+            .from("match_profiles")
+            .select("*")
+            .order("chain")
+            .order("item_code")
+            .order("product_id")
+            .range(from, from + PAGE_SIZE - 1);
+          query = q.linked ? query.not("product_id", "is", null) : query.is("product_id", null);
+          if (q.chain) query = query.eq("chain", q.chain);
+
+          const { data, error } = await query;
+          if (error) throw error;
+          out.push(...((data ?? []) as MatchProfile[]));
+          if ((data ?? []).length < PAGE_SIZE) return out;
+        }
+      },
+
+      async listCurrentByItem(chain, itemCode) {
+        const { data, error } = await supabase
+          .from("current_prices")
+          .select("*")
+          .eq("chain", chain)
+          .eq("item_code", itemCode)
+          .order("price", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as CurrentPriceRow[];
+      },
+
+      async listCurrentByKeyWords(words, limit) {
+        if (!words.length) return [];
+        let query = supabase.from("current_prices").select("*").order("price", { ascending: true }).limit(limit);
+        for (const w of words) query = query.like("canonical_key", `%${w}%`);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data ?? []) as CurrentPriceRow[];
+      },
+    },
+
+    matches: {
+      async decide(row) {
+        if (row.decision === "link") {
+          const { error } = await supabase
+            .from("product_matches")
+            .delete()
+            .eq("chain", row.chain)
+            .eq("item_code", row.item_code)
+            .eq("decision", "link")
+            .neq("product_id", row.product_id);
+          if (error) throw error;
+        }
+        const { error } = await supabase
+          .from("product_matches")
+          .upsert(row, { onConflict: "chain,item_code,product_id" });
+        if (error) throw error;
+
+        let settled = supabase
+          .from("product_match_candidates")
+          .delete()
+          .eq("chain", row.chain)
+          .eq("item_code", row.item_code);
+        if (row.decision === "unlink") settled = settled.eq("product_id", row.product_id);
+        const { error: deleteError } = await settled;
+        if (deleteError) throw deleteError;
+      },
+
+      async list(q) {
+        let query = supabase.from("product_matches").select("*").order("decided_at", { ascending: false });
+        if (q.chain) query = query.eq("chain", q.chain);
+        if (q.limit) query = query.limit(q.limit);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data ?? []) as ProductMatchRow[];
+      },
+
+      async replaceCandidates(chain, rows) {
+        const { error } = await supabase.from("product_match_candidates").delete().eq("chain", chain);
+        if (error) throw error;
+        for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+          const { error } = await supabase.from("product_match_candidates").insert(rows.slice(i, i + PAGE_SIZE));
+          if (error) throw error;
+        }
+      },
+
+      async candidates(q) {
+        let query = supabase
+          .from("product_match_candidates")
+          .select("*")
+          .order("confidence", { ascending: false })
+          .order("chain")
+          .order("item_code")
+          .order("rank")
+          .limit(q.limit);
+        if (q.chain) query = query.eq("chain", q.chain);
+        if (q.productId) query = query.eq("product_id", q.productId);
+        if (q.below != null) query = query.lt("confidence", q.below);
+        if (q.min != null) query = query.gte("confidence", q.min);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data ?? []) as MatchCandidateRow[];
+      },
+    },
+
+    products: {
+      async upsert(rows) {
+        const { error } = await supabase.from("products").upsert(rows, { onConflict: "id", ignoreDuplicates: true });
+        if (error) throw error;
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase
+          .from("products")
+          .select("id, gtin, gtin_format, name, canonical_key")
+          .eq("id", id)
+          .maybeSingle();
+        if (error) throw error;
+        return (data as ProductRow | null) ?? null;
+      },
+    },
+
+    promotions: {
+      async upsert(rows) {
+        const { error } = await supabase.from("promotions").upsert(rows, { onConflict: "raw_file_id,promotion_id" });
+        if (error) throw error;
+      },
+
+      async deleteByRawFile(rawFileId) {
+        const { error } = await supabase.from("promotions").delete().eq("raw_file_id", rawFileId);
+        if (error) throw error;
+      },
+
+      async markSnapshot(q) {
+        const { error } = await supabase.rpc("mark_promo_snapshot", {
+          chain_slug: q.chain,
+          file_store_id: q.storeId,
+          snapshot_at: q.fileAt,
+        });
+        if (error) throw error;
+      },
+
+      async listActive(q) {
+        if (!q.itemCodes.length) return [];
+        const out: PromotionRow[] = [];
+        for (let from = 0; ; from += PAGE_SIZE) {
+          let query = supabase
+            .from("current_promotions")
+            .select("*")
+            .overlaps("item_codes", q.itemCodes)
+            .or(`start_at.is.null,start_at.lte."${q.at}"`)
+            .or(`end_at.is.null,end_at.gte."${q.at}"`)
+            .order("raw_file_id")
+            .order("promotion_id")
+            .range(from, from + PAGE_SIZE - 1);
+          if (q.chain) query = query.eq("chain", q.chain);
+
+          const { data, error } = await query;
+          if (error) throw error;
+          out.push(...((data ?? []) as PromotionRow[]));
+          if ((data ?? []).length < PAGE_SIZE) return out;
+        }
+      },
+    },
+
+    stores: {
+      async upsert(rows) {
+        const { error } = await supabase.from("stores").upsert(rows, { onConflict: "chain,store_id" });
+        if (error) throw error;
+      },
+
+      async list(q) {
+        let query = supabase.from("stores").select("*").order("chain").order("store_id");
+        if (q.chain) query = query.eq("chain", q.chain);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data ?? []) as StoreRow[];
+      },
+    },
+
+    stats: {
+      async refreshDaily(daysBack) {
+        const { error } = await supabase.rpc("refresh_product_stats_daily", { days_back: daysBack });
+        if (error) throw error;
+      },
+
+      async listDaily(q) {
+        let query = supabase
+          .from("product_stats_daily")
+          .select("day, chain, canonical_key, avg_price, sample_count, min_price, max_price")
+          .order("day", { ascending: false })
+          .limit(q.limit ?? 100);
+        if (q.chain) query = query.eq("chain", q.chain);
+        if (q.day) query = query.eq("day", q.day);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data ?? []) as StatsDailyRow[];
+      },
+    },
+
+    async close() {},
+  };
+}
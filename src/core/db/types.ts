@@ -0,0 +1,93 @@
+import type { CurrentPriceRow } from "../parse/current_prices";
+import type { PriceRow } from "../parse/price_full_parser";
+import type { PromotionRow } from "../parse/promo_parser";
+import type { StoreRow } from "../parse/stores_parser";
+import type { MatchCandidateRow, ProductMatchRow } from "../products/matches";
+import type { ProductLink, ProductRow } from "../products/products";
+import type { MatchProfile } from "../products/similarity";
+
+export type {
+  CurrentPriceRow,
+  MatchCandidateRow,
+  MatchProfile,
+  PriceRow,
+  ProductLink,
+  ProductMatchRow,
+  ProductRow,
+  PromotionRow,
+  StoreRow,
+};
+
+// duplicate = התוכן (sha256) כבר נקלט תחת קובץ אחר (duplicate_of); לא מועלה ולא מפורק
+// failed = ינוסה שוב ב-next_retry_at; dead = נכשל סופית (ראה core/retry.ts)
+// parsing = worker תפס את הקובץ ומפרק אותו עד lease_until
+export type RawFileStatus = "downloaded" | "parsing" | "failed" | "skipped" | "parsed" | "duplicate" | "dead";
+
+export const RAW_FILE_STATUSES: RawFileStatus[] = [
+  "downloaded",
+  "parsing",
+  "failed",
+  "skipped",
+  "parsed",
+  "duplicate",
+  "dead",
+];
+
+// באיזה שלב הקובץ נכשל: collect (הורדה / העלאה) או parse (פירוק / כתיבה)
+export type FailedStep = "collect" | "parse";
+
+// raw_files (id, chain, store_id, file_url, storage_path, sha256, fetched_at, status, error,
+//   first_seen_at, last_seen_at, seen_count, duplicate_of, attempts, next_retry_at, failed_step,
+//   claimed_by, lease_until)
+export type RawFileRecord = {
+  id: string;
+  chain: string;
+  store_id: string | null;
+  file_url: string;
+  storage_path: string | null;
+  sha256: string | null;
+  fetched_at: string | null;
+  status: RawFileStatus;
+  error: string | null;
+  // היסטוריה לכל URL: מתי נראה לראשונה/לאחרונה וכמה פעמים
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+  seen_count: number;
+  duplicate_of: string | null; // id של הקובץ המקורי עם אותו sha256
+  attempts: number; // כמה פעמים נכשל
+  next_retry_at: string | null;
+  failed_step: FailedStep | null;
+  claimed_by: string | null; // ה-worker שמפרק את הקובץ (status parsing)
+  lease_until: string | null; // אחרי זה worker אחר רשאי לתפוס אותו
+};
+
+// עמודות מדיניות הניסיונות החוזרים (core/retry.ts)
+type RetryColumn = "attempts" | "next_retry_at" | "failed_step";
+
+// עמודות ההיסטוריה מתמלאות ב-insert ומתעדכנות רק דרך markSeen
+export type RawFileInsert = Omit<
+  RawFileRecord,
+  | "id"
+  | "fetched_at"
+  | "first_seen_at"
+  | "last_seen_at"
+  | "seen_count"
+  | "duplicate_of"
+  | "attempts"
+  | "next_retry_at"
+  | "failed_step"
+  | "claimed_by"
+  | "lease_until"
+> & { fetched_at?: string } & Partial<Pick<RawFileRecord, "duplicate_of" | RetryColumn>>;
+
+export type RawFilePatch = Partial<Pick<RawFileRecord, "status" | "error" | "store_id" | RetryColumn>>;
+
+export type StatsDailyRow = {
+  day: string;
+  chain: string;
+  canonical_key: string;
+  avg_price: number;
+  sample_count: number;
+  min_price: number;
+  max_price: number;
+};
@@ -0,0 +1,20 @@
+/**
+ * סוגי הקבצים שהרשתות מפרסמות לפי חוק שקיפות מחירים.
+ * השם של כל קובץ מתחיל בסוג שלו: PriceFull7290027600007-001-...gz, Promo7290803800003-009-...gz,
+ * Stores7290803800003-000-...xml (קובץ סניפים אחד לכל הרשת)
+ */
+export type RawFileType = "PriceFull" | "Price" | "PromoFull" | "Promo" | "Stores";
+
+export const ALL_FILE_TYPES: RawFileType[] = ["PriceFull", "Price", "PromoFull", "Promo", "Stores"];
+
+// הסדר חשוב: PriceFull לפני Price, PromoFull לפני Promo
+export function fileTypeOf(nameOrUrl: string): RawFileType | null {
+  const m = nameOrUrl.match(/(?:\/|^)(PriceFull|Price|PromoFull|Promo|Stores)\d+/i);
+  if (!m) return null;
+  return ALL_FILE_TYPES.find((t) => t.toLowerCase() === m[1].toLowerCase()) ?? null;
+}
+
+export function isFileType(nameOrUrl: string, types: RawFileType[]) {
+  const t = fileTypeOf(nameOrUrl);
+  return t != null && types.includes(t);
+}
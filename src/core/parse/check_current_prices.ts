@@ -0,0 +1,135 @@
+import crypto from "node:crypto";
+import { createSqliteRepos } from "../db/sqlite_repos";
+import type { PriceFileType, PriceRow } from "./price_full_parser";
+import { priceVersion } from "./current_prices";
+
+/**
+ * בודק ש-current_prices לא תלוי בסדר שבו קבצי המחירים של סניף מוחלים (commitFile, SQLite בזיכרון):
+ * כל הסדרים של FILES צריכים להגיע ל-EXPECTED, כולל PriceFull ישן שמגיע אחרי חדש.
+ *
+ * npx tsx src/core/parse/check_current_prices.ts   # exit 1 כשיש סדר שנותן תוצאה אחרת
+ */
+
+type TestFile = { type: PriceFileType; at: string; items: Record<string, number> };
+
+const CHAIN = "check";
+const STORE = "001";
+
+const FILES: TestFile[] = [
+  { type: "PriceFull", at: "2026-01-14 00:10:00", items: { a: 1, b: 1, c: 1, e: 1 } },
+  { type: "Price", at: "2026-01-14 04:17:00", items: { c: 2, f: 2 } },
+  { type: "PriceFull", at: "2026-01-14 05:16:00", items: { a: 3, b: 3, c: 3 } },
+  { type: "PriceFull", at: "2026-01-14 09:30:00", items: { a: 4, b: 4 } },
+  { type: "Price", at: "2026-01-14 09:40:00", items: { b: 5, d: 5 } },
+];
+
+// ה-PriceFull של 09:30 ואחריו ה-Price של 09:40
+const EXPECTED: Record<string, number> = { a: 4, b: 5, d: 5 };
+
+function priceRow(rawFileId: string, f: TestFile, itemCode: string, price: number): PriceRow {
+  return {
+    raw_file_id: rawFileId,
+    chain: CHAIN,
+    sub_chain_id: null,
+    store_id: STORE,
+    bikoret_no: null,
+    item_code: itemCode,
+    barcode: null,
+    product_id: null,
+    code_kind: "internal",
+    item_name: itemCode,
+    canonical_key: itemCode,
+    price,
+    unit_qty: null,
+    qty_unit: null,
+    unit_of_measure: null,
+    price_update_time: null,
+    last_sale_datetime: null,
+    is_weighted: null,
+    qty_in_package: null,
+    file_type: f.type,
+    file_at: f.at,
+    base_unit: null,
+    base_qty: null,
+    price_per_base_unit: null,
+    unit_issue: null,
+    brand: null,
+    size_qty: null,
+    size_unit: null,
+    pack_count: null,
+    fat_pct: null,
+  };
+}
+
+function permutations<T>(values: T[]): T[][] {
+  if (values.length <= 1) return [values];
+  return values.flatMap((v, i) => permutations([...values.slice(0, i), ...values.slice(i + 1)]).map((p) => [v, ...p]));
+}
+
+// מחיל את הקבצים בסדר הנתון ומחזיר item_code -> price
+async function applyInOrder(order: TestFile[]): Promise<Record<string, number>> {
+  const repos = createSqliteRepos(":memory:");
+  try {
+    for (const f of order) {
+      const id = crypto.randomUUID();
+      const storagePath = `${CHAIN}/${id}.xml`;
+      await repos.rawFiles.insert({
+        chain: CHAIN,
+        store_id: STORE,
+        file_url: `https://example.invalid/${id}`,
+        storage_path: storagePath,
+        sha256: id,
+        status: "downloaded",
+        error: null,
+      });
+      const now = new Date().toISOString();
+      const [claimed] = await repos.rawFiles.claimPending({
+        chain: CHAIN,
+        storagePathLike: storagePath,
+        worker: "check",
+        now,
+        leaseUntil: now,
+        limit: 1,
+      });
+
+      await repos.prices.upsert(Object.entries(f.items).map(([code, price]) => priceRow(claimed.id, f, code, price)));
+      await repos.prices.commitFile({
+        rawFileId: claimed.id,
+        worker: "check",
+        storeId: STORE,
+        version: priceVersion({ fileAt: f.at, fileType: f.type, rawFileId: claimed.id }),
+        prune: f.type === "PriceFull",
+      });
+    }
+
+    const out: Record<string, number> = {};
+    for (const code of new Set(FILES.flatMap((f) => Object.keys(f.items)))) {
+      const [row] = await repos.prices.listCurrentByItem(CHAIN, code);
+      if (row) out[code] = Number(row.price);
+    }
+    return out;
+  } finally {
+    await repos.close();
+  }
+}
+
+async function main() {
+  const expected = JSON.stringify(EXPECTED);
+  const orders = permutations(FILES);
+  let failures = 0;
+
+  for (const order of orders) {
+    const got = JSON.stringify(await applyInOrder(order));
+    if (got === expected) continue;
+    failures++;
+    console.log(`[FAIL] ${order.map((f) => `${f.type}@${f.at.slice(11, 16)}`).join(" -> ")}: ${got}`);
+  }
+
+  if (failures) {
+    console.log(`${failures}/${orders.length} orders differ from ${expected}`);
+    process.exit(1);
+  }
+  console.log(`${orders.length} orders ok`);
+}
+
+main();
@@ -0,0 +1,29 @@
+import type { PriceRow } from "./price_full_parser";
+
+/**
+ * current_prices = המחיר העדכני לכל (chain, store_id, item_code):
+ * ה-PriceFull האחרון של הסניף + כל קבצי ה-Price (delta) שאחריו.
+ *
+ * כל שורה נושאת version = "<file_at>|<0 full / 1 delta>|<raw_file_id>" ומשווים מחרוזות,
+ * כך שהתוצאה לא תלויה בסדר שבו הקבצים מגיעים, והרצה חוזרת של אותו קובץ לא משנה כלום.
+ *
+ * ההחלה עצמה רצה ב-SQL (commit_price_file / PricesRepo.commitFile) בסוף כל קובץ: שורה נכתבת רק אם
+ * ה-version שלה חדש יותר, ו-PriceFull מוחק את מה שלא הופיע בו (ירד מהמדף). ה-PriceFull האחרון של כל
+ * סניף נשמר ב-price_snapshots, וקובץ שה-version שלו לפניו מדולג: אחרת PriceFull ישן שמגיע מאוחר מחזיר
+ * פריטים שהחדש מחק.
+ */
+
+export type CurrentPriceRow = PriceRow & { version: string };
+
+export type PriceFileMeta = {
+  chain: string;
+  storeId: string;
+  rawFileId: string;
+  fileType: "PriceFull" | "Price";
+  fileAt: string; // "YYYY-MM-DD HH:MM:SS"
+};
+
+export function priceVersion(meta: Pick<PriceFileMeta, "fileAt" | "fileType" | "rawFileId">): string {
+  // delta באותה דקה כמו PriceFull גובר עליו
+  return `${meta.fileAt}|${meta.fileType === "PriceFull" ? 0 : 1}|${meta.rawFileId}`;
+}
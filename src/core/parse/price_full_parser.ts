@@ -0,0 +1,274 @@
+import { priceVersion } from "./current_prices";
+import { commitParsed, runRawFileParser, type ParseOptions, type RawFileRef } from "./run_parser";
+import { normalizeUnitPrice, type UnitFields, type UnitPrice } from "./units";
+import { iterateXmlRecords } from "./xml_stream";
+import { fileTypeOf } from "../file_types";
+import { canonicalizeName, type NameAttributes } from "../products/canonical";
+import type { ItemCodeKind } from "../products/gtin";
+import { applyMatchOverrides, loadMatchOverrides, type MatchOverrides } from "../products/matches";
+import { productLink, productsOf } from "../products/products";
+import {
+  fileAtFromFilename,
+  israelTime,
+  normalizeStoreId,
+  numOrNull,
+  pick,
+  storeIdFromFilename,
+  strOrNull,
+} from "./xml_utils";
+
+/**
+ * PriceFull / Price parser משותף לכל הרשתות.
+ * כל רשת מגדירה ChainDescriptor (slug, תבנית שם קובץ, aliases לשדות ה-XML)
+ * והמודול הזה עושה את כל השאר: שליפה מ-raw_files, gunzip, parse בזרימה (Item אחד בכל פעם), upsert ל-prices.
+ * קבצי Price (delta) הם באותו מבנה בדיוק; אחרי ההכנסה כל קובץ מוחל על current_prices.
+ */
+
+export type FieldAliases = {
+  chainId: string[];
+  subChainId: string[];
+  storeId: string[];
+  bikoretNo: string[];
+
+  itemCode: string[];
+  itemName: string[];
+  itemPrice: string[];
+  quantity: string[];
+  quantityUnit: string[];
+  unitOfMeasure: string[];
+  priceUpdateTime: string[];
+  lastSaleDateTime: string[];
+  isWeighted: string[];
+  qtyInPackage: string[];
+};
+
+export type ChainDescriptor = {
+  chain: string; // slug כפי שנשמר ב-raw_files.chain
+  filenamePattern: RegExp; // שם קובץ Price/PriceFull; group 1 = store id, group 2 = חותמת זמן
+  fields?: Partial<FieldAliases>;
+};
+
+export type PriceRow = {
+  raw_file_id: string;
+  chain: string;
+  sub_chain_id: string | null;
+  store_id: string | null;
+  bikoret_no: number | null;
+
+  item_code: string | null;
+  barcode: string | null; // GTIN נורמלי (products/gtin.ts), null לקוד פנימי
+  product_id: string | null; // products.id
+  code_kind: ItemCodeKind;
+  item_name: string;
+  canonical_key: string | null;
+
+  price: number;
+  unit_qty: number | null; // Quantity
+  qty_unit: string | null; // UnitQty, היחידה של Quantity
+  unit_of_measure: string | null;
+  price_update_time: string | null;
+  last_sale_datetime: string | null;
+
+  is_weighted: boolean | null;
+  qty_in_package: number | null;
+
+  file_type: PriceFileType;
+  file_at: string | null; // חותמת הזמן מהשם של הקובץ
+} & UnitPrice & // מחיר ליחידת בסיס (units.ts)
+  NameAttributes; // מותג / גודל / מארז / אחוז שומן מהשם (products/canonical.ts)
+
+export type PriceFileType = "PriceFull" | "Price";
+
+// שדות ה-header של הקובץ; מתמלאים כשה-Item הראשון נקרא
+export type PriceFileHeader = {
+  chainId: string | null;
+  subChainId: string | null;
+  storeId: string | null;
+  bikoretNo: number | null;
+  items: number; // מספר ה-Item בקובץ (כולל כאלה שדולגו)
+};
+
+export type ParsedPriceFull = {
+  header: PriceFileHeader;
+  rows: AsyncGenerator<PriceRow>;
+};
+
+// ברירת מחדל: כל הווריאציות שראינו אצל שופרסל ויוחננוף
+const DEFAULT_FIELDS: FieldAliases = {
+  chainId: ["ChainID", "ChainId"],
+  subChainId: ["SubChainID", "SubChainId"],
+  storeId: ["StoreID", "StoreId"],
+  bikoretNo: ["BikoretNo"],
+
+  itemCode: ["ItemCode"],
+  itemName: ["ItemName"],
+  itemPrice: ["ItemPrice"],
+  quantity: ["Quantity"],
+  quantityUnit: ["UnitQty"],
+  unitOfMeasure: ["UnitOfMeasure"],
+  priceUpdateTime: ["PriceUpdateTime", "PriceUpdateDate"],
+  lastSaleDateTime: ["LastSaleDateTime"],
+  isWeighted: ["bIsWeighted"],
+  qtyInPackage: ["QtyInPackage"],
+};
+
+export function resolveFields(desc: ChainDescriptor): FieldAliases {
+  return { ...DEFAULT_FIELDS, ...(desc.fields ?? {}) };
+}
+
+/**
+ * מפרק XML של PriceFull / Price לשורות prices, שורה אחת בכל פעם.
+ * זורק Error עם הודעה קצרה (נשמרת ב-raw_files.error) כשהמבנה לא תקין.
+ */
+export function parsePriceFullStream(
+  xml: AsyncIterable<string>,
+  desc: ChainDescriptor,
+  ctx: { rawFileId: string; fallbackStoreId: string | null; fileType?: PriceFileType; fileAt?: string | null }
+): ParsedPriceFull {
+  const fields = resolveFields(desc);
+  const header: PriceFileHeader = { chainId: null, subChainId: null, storeId: null, bikoretNo: null, items: 0 };
+
+  async function* rows(): AsyncGenerator<PriceRow> {
+    for await (const { node: it, header: h } of iterateXmlRecords(xml, ["Item"])) {
+      if (header.items++ === 0) {
+        header.chainId = strOrNull(pick(h, fields.chainId));
+        header.subChainId = strOrNull(pick(h, fields.subChainId));
+        header.bikoretNo = numOrNull(pick(h, fields.bikoretNo));
+
+        const storeIdStr = strOrNull(pick(h, fields.storeId));
+        header.storeId = storeIdStr
+          ? normalizeStoreId(storeIdStr)
+          : ctx.fallbackStoreId
+            ? ctx.fallbackStoreId.padStart(3, "0")
+            : null;
+
+        if (!header.storeId) throw new Error("Missing StoreId in XML");
+      }
+
+      const row = priceRowFromItem(it, desc, fields, header, ctx);
+      if (row) yield row;
+    }
+
+    if (!header.items) throw new Error("No Items in XML");
+  }
+
+  return { header, rows: rows() };
+}
+
+function priceRowFromItem(
+  it: any,
+  desc: ChainDescriptor,
+  fields: FieldAliases,
+  header: PriceFileHeader,
+  ctx: { rawFileId: string; fileType?: PriceFileType; fileAt?: string | null }
+): PriceRow | null {
+  const cleanName = String(pick(it, fields.itemName) ?? "").trim().replace(/\s+/g, " ");
+  const price = Number(pick(it, fields.itemPrice));
+
+  if (!cleanName || !Number.isFinite(price)) return null;
+
+  const itemCode = strOrNull(pick(it, fields.itemCode));
+  if (!itemCode) return null;
+
+  const weighted = pick(it, fields.isWeighted);
+  const units: UnitFields = {
+    price,
+    unit_qty: numOrNull(pick(it, fields.quantity)),
+    qty_unit: strOrNull(pick(it, fields.quantityUnit)),
+    unit_of_measure: strOrNull(pick(it, fields.unitOfMeasure)),
+    is_weighted: weighted == null ? null : String(weighted) === "1",
+  };
+
+  return {
+    raw_file_id: ctx.rawFileId,
+
+    chain: desc.chain,
+    sub_chain_id: header.subChainId,
+    store_id: header.storeId,
+    bikoret_no: header.bikoretNo,
+
+    item_code: itemCode,
+    ...productLink(itemCode),
+    item_name: cleanName,
+    ...canonicalizeName(cleanName),
+
+    price,
+    unit_qty: units.unit_qty,
+    qty_unit: units.qty_unit,
+    unit_of_measure: units.unit_of_measure,
+    price_update_time: strOrNull(pick(it, fields.priceUpdateTime)),
+    last_sale_datetime: strOrNull(pick(it, fields.lastSaleDateTime)),
+
+    is_weighted: units.is_weighted,
+    qty_in_package: numOrNull(pick(it, fields.qtyInPackage)),
+
+    file_type: ctx.fileType ?? "PriceFull",
+    file_at: ctx.fileAt ?? null,
+
+    ...normalizeUnitPrice(units),
+  };
+}
+
+// סוג הקובץ וחותמת הזמן שלו; בלי חותמת בשם נופלים ל-fetched_at (UTC), בשעון ישראל כמו החותמות
+export function priceFileInfo(desc: ChainDescriptor, f: RawFileRef): { fileType: PriceFileType; fileAt: string | null } {
+  const fileType: PriceFileType = fileTypeOf(f.storage_path.split("/").pop() ?? "") === "Price" ? "Price" : "PriceFull";
+  const fileAt =
+    fileAtFromFilename(desc.filenamePattern, f.storage_path) ??
+    (f.fetched_at ? israelTime(new Date(f.fetched_at)) : null);
+  return { fileType, fileAt };
+}
+
+/**
+ * לוקח קבצי PriceFull / Price שהורדו ועדיין לא פורקו, מכניס ל-prices ומחיל על current_prices.
+ * השורות נכתבות ל-prices בזמן הקריאה; ההחלה על current_prices (והמחיקה של מה שירד מהמדף, ב-PriceFull)
+ * רצה ב-commit, בטרנזקציה אחת עם סימון הקובץ parsed.
+ */
+export async function runPriceFullParser(desc: ChainDescriptor, opts: ParseOptions = {}) {
+  // ההחלטות הידניות של הרשת (smartcart matches), פעם אחת לכל הרצה
+  let overrides: Promise<MatchOverrides> | undefined;
+
+  return runRawFileParser<PriceRow>(
+    {
+      chain: desc.chain,
+      storagePathLike: "%/Price%", // PriceFull + Price, בלי Promo
+      write: async (repos, rows) => {
+        // המוצרים קודם: prices.product_id מצביע עליהם. מוצר שנוסף מקובץ שנכשל נשאר (הוא לא שייך לקובץ)
+        await repos.products.upsert(productsOf(rows));
+        overrides ??= loadMatchOverrides(repos, desc.chain);
+        await repos.prices.upsert(applyMatchOverrides(rows, await overrides));
+      },
+      discard: (repos, f) => repos.prices.deleteByRawFile(f.id),
+      parse: (xml, f) => {
+        const parsed = parsePriceFullStream(xml, desc, {
+          rawFileId: f.id,
+          fallbackStoreId: f.store_id ?? storeIdFromFilename(desc.filenamePattern, f.storage_path),
+          ...priceFileInfo(desc, f),
+        });
+        return {
+          rows: parsed.rows,
+          storeId: () => parsed.header.storeId,
+          summary: () =>
+            `store=${parsed.header.storeId} items=${parsed.header.items} chainId=${parsed.header.chainId ?? "?"}`,
+        };
+      },
+      commit: async (repos, parsed, f, worker) => {
+        const { fileType, fileAt } = priceFileInfo(desc, f);
+        const storeId = parsed.storeId();
+        if (!storeId || !fileAt) return commitParsed(repos, f, worker, storeId);
+
+        const applied = await repos.prices.commitFile({
+          rawFileId: f.id,
+          worker,
+          storeId,
+          version: priceVersion({ fileAt, fileType, rawFileId: f.id }),
+          prune: fileType === "PriceFull",
+        });
+        if (applied == null) return false;
+
+        console.log(`current_prices: ${fileType} ${fileAt} applied=${applied}`);
+        return true;
+      },
+    },
+    opts
+  );
+}
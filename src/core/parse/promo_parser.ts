@@ -0,0 +1,297 @@
+import { commitParsed, runRawFileParser, type ParseOptions, type RawFileRef } from "./run_parser";
+import { iterateXmlRecords } from "./xml_stream";
+import { fileTypeOf } from "../file_types";
+import {
+  boolOrNull,
+  fileAtFromFilename,
+  israelTime,
+  normalizeStoreId,
+  numOrNull,
+  pick,
+  storeIdFromFilename,
+  strOrNull,
+  toArray,
+} from "./xml_utils";
+
+/**
+ * Promo / PromoFull parser משותף לכל הרשתות -> טבלת promotions.
+ * שורה אחת לכל מבצע בסניף, עם רשימת ה-ItemCode שהמבצע חל עליהם.
+ * PromoFull הוא כל המבצעים של הסניף: החותמת שלו נשמרת ב-promo_snapshots, ומבצעים מקבצים שלפניו
+ * לא נחשבים פעילים (view current_promotions, ראה 0014_promo_snapshots).
+ */
+
+export type PromoFieldAliases = {
+  chainId: string[];
+  subChainId: string[];
+  storeId: string[];
+
+  promotionId: string[];
+  description: string[];
+  updateTime: string[];
+  startDate: string[];
+  startHour: string[];
+  endDate: string[];
+  endHour: string[];
+  minQty: string[];
+  maxQty: string[];
+  discountedPrice: string[];
+  discountedPricePerUnit: string[];
+  discountRate: string[];
+  discountType: string[];
+  rewardType: string[];
+  allowMultipleDiscounts: string[];
+  isWeightedPromo: string[];
+  clubId: string[];
+  isCoupon: string[];
+};
+
+export type PromoDescriptor = {
+  chain: string; // slug כפי שנשמר ב-raw_files.chain
+  filenamePattern: RegExp; // שם קובץ Promo/PromoFull; group 1 = store id, group 2 = חותמת זמן
+  fields?: Partial<PromoFieldAliases>;
+};
+
+export type PromotionRow = {
+  raw_file_id: string;
+  chain: string;
+  sub_chain_id: string | null;
+  store_id: string;
+
+  promotion_id: string;
+  description: string | null;
+  promotion_update_time: string | null;
+  start_at: string | null;
+  end_at: string | null;
+
+  min_qty: number | null;
+  max_qty: number | null;
+  discounted_price: number | null;
+  discounted_price_per_unit: number | null;
+  discount_rate: number | null;
+  discount_type: number | null;
+  reward_type: number | null;
+
+  allow_multiple_discounts: boolean | null;
+  is_weighted_promo: boolean | null;
+  club_ids: string[];
+  club_only: boolean; // יש ClubId שאינו 0 (0 = כלל הלקוחות)
+  is_coupon: boolean | null;
+
+  item_codes: string[];
+
+  file_type: PromoFileType;
+  file_at: string | null; // חותמת הזמן מהשם של הקובץ
+};
+
+export type PromoFileType = "PromoFull" | "Promo";
+
+// שדות ה-header של הקובץ; מתמלאים כשה-Promotion הראשון נקרא
+export type PromoFileHeader = {
+  chainId: string | null;
+  subChainId: string | null;
+  storeId: string | null;
+  promotions: number;
+};
+
+export type ParsedPromo = {
+  header: PromoFileHeader;
+  rows: AsyncGenerator<PromotionRow>;
+};
+
+const DEFAULT_FIELDS: PromoFieldAliases = {
+  chainId: ["ChainID", "ChainId"],
+  subChainId: ["SubChainID", "SubChainId"],
+  storeId: ["StoreID", "StoreId"],
+
+  promotionId: ["PromotionId", "PromotionID"],
+  description: ["PromotionDescription"],
+  updateTime: ["PromotionUpdateDate", "PromotionUpdateTime"],
+  startDate: ["PromotionStartDate"],
+  startHour: ["PromotionStartHour"],
+  endDate: ["PromotionEndDate"],
+  endHour: ["PromotionEndHour"],
+  minQty: ["MinQty"],
+  maxQty: ["MaxQty"],
+  discountedPrice: ["DiscountedPrice"],
+  discountedPricePerUnit: ["DiscountedPricePerMipuy"],
+  discountRate: ["DiscountRate"],
+  discountType: ["DiscountType"],
+  rewardType: ["RewardType"],
+  allowMultipleDiscounts: ["AllowMultipleDiscounts"],
+  isWeightedPromo: ["IsWeightedPromo"],
+  clubId: ["ClubId", "ClubID"],
+  isCoupon: ["AdditionalIsCoupon"],
+};
+
+export function resolvePromoFields(desc: PromoDescriptor): PromoFieldAliases {
+  return { ...DEFAULT_FIELDS, ...(desc.fields ?? {}) };
+}
+
+// תאריך + שעה נפרדים -> "YYYY-MM-DD HH:MM:SS". אם התאריך כבר כולל שעה משאירים אותו.
+export function joinDateTime(date: any, hour: any): string | null {
+  const d = strOrNull(date)?.trim();
+  if (!d) return null;
+  if (/\d{1,2}:\d{2}/.test(d)) return d;
+
+  const h = strOrNull(hour)?.trim();
+  if (!h) return d;
+
+  // לפעמים השעה מגיעה כ-"1900-01-01 23:59:00" או "23:59"
+  const hm = h.match(/(\d{1,2}:\d{2}(?::\d{2})?)\s*$/);
+  return hm ? `${d} ${hm[1]}` : d;
+}
+
+// StoreId מה-XML, ואם אין אז מהשם של הקובץ
+function resolveStoreId(storeIdStr: string | null, fallbackStoreId: string | null): string {
+  const storeId = storeIdStr
+    ? normalizeStoreId(storeIdStr)
+    : fallbackStoreId
+      ? fallbackStoreId.padStart(3, "0")
+      : null;
+
+  if (!storeId) throw new Error("Missing StoreId in XML");
+  return storeId;
+}
+
+/**
+ * מפרק XML של Promo/PromoFull לשורות promotions, מבצע אחד בכל פעם.
+ * זורק Error עם הודעה קצרה (נשמרת ב-raw_files.error) כשהמבנה לא תקין.
+ */
+export function parsePromoStream(
+  xml: AsyncIterable<string>,
+  desc: PromoDescriptor,
+  ctx: { rawFileId: string; fallbackStoreId: string | null; fileType?: PromoFileType; fileAt?: string | null }
+): ParsedPromo {
+  const fields = resolvePromoFields(desc);
+  const header: PromoFileHeader = { chainId: null, subChainId: null, storeId: null, promotions: 0 };
+
+  async function* rows(): AsyncGenerator<PromotionRow> {
+    const root: Record<string, string> = {};
+
+    for await (const { node: p, header: h } of iterateXmlRecords(xml, ["Promotion"], root)) {
+      if (header.promotions++ === 0) {
+        header.chainId = strOrNull(pick(h, fields.chainId));
+        header.subChainId = strOrNull(pick(h, fields.subChainId));
+        header.storeId = resolveStoreId(strOrNull(pick(h, fields.storeId)), ctx.fallbackStoreId);
+      }
+
+      const row = promotionRowFromNode(p, desc, fields, header, ctx);
+      if (row) yield row;
+    }
+
+    // קובץ Promo בלי מבצעים הוא תקין (סניף בלי מבצעים פעילים), אבל עדיין צריך סניף
+    if (!header.promotions) {
+      header.chainId = strOrNull(pick(root, fields.chainId));
+      header.subChainId = strOrNull(pick(root, fields.subChainId));
+      header.storeId = resolveStoreId(strOrNull(pick(root, fields.storeId)), ctx.fallbackStoreId);
+    }
+  }
+
+  return { header, rows: rows() };
+}
+
+function promotionRowFromNode(
+  p: any,
+  desc: PromoDescriptor,
+  fields: PromoFieldAliases,
+  header: PromoFileHeader,
+  ctx: { rawFileId: string; fileType?: PromoFileType; fileAt?: string | null }
+): PromotionRow | null {
+  const promotionId = strOrNull(pick(p, fields.promotionId));
+  if (!promotionId || !header.storeId) return null;
+
+  const itemCodes = toArray<any>(p?.PromotionItems?.Item)
+    .map((it) => strOrNull(it?.ItemCode))
+    .filter((c): c is string => !!c);
+
+  // ClubId מגיע לפעמים ישירות על ה-Promotion ולפעמים בתוך <Clubs>
+  const clubIds = [
+    ...toArray<any>(pick(p, fields.clubId)),
+    ...toArray<any>(pick(p?.Clubs, fields.clubId)),
+  ]
+    .map((c) => String(c).trim())
+    .filter((c) => c !== "");
+
+  const description = strOrNull(pick(p, fields.description))?.trim().replace(/\s+/g, " ") ?? null;
+
+  return {
+    raw_file_id: ctx.rawFileId,
+    chain: desc.chain,
+    sub_chain_id: header.subChainId,
+    store_id: header.storeId,
+
+    promotion_id: promotionId,
+    description,
+    promotion_update_time: strOrNull(pick(p, fields.updateTime)),
+    start_at: joinDateTime(pick(p, fields.startDate), pick(p, fields.startHour)),
+    end_at: joinDateTime(pick(p, fields.endDate), pick(p, fields.endHour)),
+
+    min_qty: numOrNull(pick(p, fields.minQty)),
+    max_qty: numOrNull(pick(p, fields.maxQty)),
+    discounted_price: numOrNull(pick(p, fields.discountedPrice)),
+    discounted_price_per_unit: numOrNull(pick(p, fields.discountedPricePerUnit)),
+    discount_rate: numOrNull(pick(p, fields.discountRate)),
+    discount_type: numOrNull(pick(p, fields.discountType)),
+    reward_type: numOrNull(pick(p, fields.rewardType)),
+
+    allow_multiple_discounts: boolOrNull(pick(p, fields.allowMultipleDiscounts)),
+    is_weighted_promo: boolOrNull(pick(p, fields.isWeightedPromo)),
+    club_ids: Array.from(new Set(clubIds)),
+    club_only: clubIds.some((c) => c !== "0"),
+    is_coupon: boolOrNull(pick(p?.AdditionalRestrictions ?? p, fields.isCoupon)),
+
+    item_codes: Array.from(new Set(itemCodes)),
+
+    file_type: ctx.fileType ?? "PromoFull",
+    file_at: ctx.fileAt ?? null,
+  };
+}
+
+// סוג הקובץ וחותמת הזמן שלו, כמו priceFileInfo
+export function promoFileInfo(
+  desc: PromoDescriptor,
+  f: RawFileRef
+): { fileType: PromoFileType; fileAt: string | null } {
+  const fileType: PromoFileType = fileTypeOf(f.storage_path.split("/").pop() ?? "") === "Promo" ? "Promo" : "PromoFull";
+  const fileAt =
+    fileAtFromFilename(desc.filenamePattern, f.storage_path) ??
+    (f.fetched_at ? israelTime(new Date(f.fetched_at)) : null);
+  return { fileType, fileAt };
+}
+
+/**
+ * לוקח קבצי Promo/PromoFull שהורדו ועדיין לא פורקו ומכניס ל-promotions.
+ * PromoFull מקדם את promo_snapshots של הסניף לפני שהקובץ מסומן parsed.
+ */
+export async function runPromoParser(desc: PromoDescriptor, opts: ParseOptions = {}) {
+  return runRawFileParser<PromotionRow>(
+    {
+      chain: desc.chain,
+      storagePathLike: "%/Promo%",
+      write: (repos, rows) => repos.promotions.upsert(rows),
+      discard: (repos, f) => repos.promotions.deleteByRawFile(f.id),
+      parse: (xml, f) => {
+        const parsed = parsePromoStream(xml, desc, {
+          rawFileId: f.id,
+          fallbackStoreId: f.store_id ?? storeIdFromFilename(desc.filenamePattern, f.storage_path),
+          ...promoFileInfo(desc, f),
+        });
+        return {
+          rows: parsed.rows,
+          storeId: () => parsed.header.storeId,
+          summary: () =>
+            `store=${parsed.header.storeId} promotions=${parsed.header.promotions} chainId=${parsed.header.chainId ?? "?"}`,
+        };
+      },
+      commit: async (repos, parsed, f, worker) => {
+        const storeId = parsed.storeId();
+        const { fileType, fileAt } = promoFileInfo(desc, f);
+        if (fileType === "PromoFull" && storeId && fileAt) {
+          await repos.promotions.markSnapshot({ chain: desc.chain, storeId, fileAt });
+        }
+        return commitParsed(repos, f, worker, storeId);
+      },
+    },
+    opts
+  );
+}
@@ -0,0 +1,234 @@
+import os from "node:os";
+import { xmlTextStream } from "./xml_stream";
+import { reposFromEnv, type Repos } from "../db/repos";
+import type { RawFileRecord } from "../db/types";
+import { failureFields } from "../retry";
+import { rawFileStoreFromEnv, type RawFileStore } from "../storage/raw_file_store";
+import { supabaseFromEnv } from "../supabase/client";
+
+const DEBUG = process.env.DEBUG_PARSE === "1";
+const BATCH = 500;
+export const DEFAULT_PARSE_LIMIT = 50;
+const DEFAULT_LEASE_SECONDS = 600;
+const DEFAULT_WORKER = `${os.hostname()}:${process.pid}`;
+
+export type RawFileRef = {
+  id: string;
+  storage_path: string;
+  store_id: string | null;
+  fetched_at: string | null;
+};
+
+export type ParsedFile<Row> = {
+  rows: AsyncIterable<Row>; // נקראות פעם אחת, בזרימה
+  // נקראים אחרי שכל השורות נצרכו
+  storeId: () => string | null; // null לקבצים ברמת הרשת (Stores)
+  summary: () => string; // נכנס ללוג "Parsed OK"
+};
+
+/**
+ * job של פירוק: איזה קבצים לקחת מ-raw_files, איך לפרק XML לשורות ולאן לכתוב אותן.
+ */
+export type ParseJob<Row> = {
+  chain: string;
+  storagePathLike: string; // למשל "%PriceFull%"
+  // מקבל את ה-XML כזרם של chunks טקסט; השורות נבנות תוך כדי קריאה
+  parse: (xml: AsyncIterable<string>, file: RawFileRef) => ParsedFile<Row>;
+  write: (repos: Repos, rows: Row[], file: RawFileRef) => Promise<void>; // upsert של באץ' אחד
+  // מוחק את מה ש-write כבר כתב לקובץ שנכשל באמצע, כדי שלא יישארו ממנו חצי שורות
+  discard?: (repos: Repos, file: RawFileRef) => Promise<void>;
+  allowPlainXml?: boolean; // לקבל גם XML לא מכווץ (Stores)
+  // רץ אחרי שכל השורות נכנסו: מסמן את הקובץ parsed (ברירת מחדל: commitParsed), יחד עם כל מה
+  // שצריך לקרות באותה טרנזקציה. false = ה-claim כבר לא של ה-worker הזה
+  commit?: (repos: Repos, parsed: ParsedFile<Row>, file: RawFileRef, worker: string) => Promise<boolean>;
+};
+
+export type ParseOptions = {
+  limit?: number; // כמה קבצים לפרק בריצה אחת (ברירת מחדל 50)
+  repos?: Repos; // ברירת מחדל: לפי DB_BACKEND (ונסגר בסוף)
+  store?: RawFileStore; // ברירת מחדל: לפי RAW_STORE
+  worker?: string; // מזהה ב-raw_files.claimed_by (ברירת מחדל: host:pid)
+  leaseSeconds?: number; // כמה זמן קובץ תפוס לפני ש-worker אחר רשאי לקחת אותו (ברירת מחדל 600)
+};
+
+export type ParseResult = { parsed: number; failed: number };
+
+type Outcome = "parsed" | "failed" | "lost";
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+/**
+ * סימון parsed רגיל (job בלי commit משלו), רק אם הקובץ עדיין תפוס על ידי ה-worker.
+ */
+export function commitParsed(repos: Repos, file: RawFileRef, worker: string, storeId: string | null) {
+  return repos.rawFiles.finishClaim(file.id, worker, {
+    status: "parsed",
+    error: null,
+    next_retry_at: null,
+    failed_step: null,
+    ...(storeId ? { store_id: storeId } : {}),
+  });
+}
+
+/**
+ * לולאת הפירוק המשותפת: תופס קובץ אחד בכל פעם (status parsing + lease), ומזרים אותו
+ * Storage -> gunzip -> SAX -> באצ'ים של BATCH שורות -> write, בלי להחזיק את הקובץ או כל השורות בזיכרון.
+ * הכל או כלום לכל קובץ: כשלון באמצע מוחק את מה שנכתב (discard) ומסמן failed; רק commit מסמן parsed.
+ * כמה workers יכולים לרוץ במקביל על אותה רשת; כל אחד מקבל קבצים אחרים.
+ * parse זורק Error כשהקובץ לא תקין וההודעה נשמרת ב-raw_files.error.
+ */
+export async function runRawFileParser<Row>(job: ParseJob<Row>, opts: ParseOptions = {}): Promise<ParseResult> {
+  const supabase = supabaseFromEnv();
+  const repos = opts.repos ?? reposFromEnv(supabase);
+  try {
+    const store = opts.store ?? rawFileStoreFromEnv(supabase);
+    return await parsePending(job, repos, store, {
+      limit: opts.limit ?? DEFAULT_PARSE_LIMIT,
+      worker: opts.worker ?? DEFAULT_WORKER,
+      leaseMs: (opts.leaseSeconds ?? DEFAULT_LEASE_SECONDS) * 1000,
+    });
+  } finally {
+    if (!opts.repos) await repos.close();
+  }
+}
+
+async function parsePending<Row>(
+  job: ParseJob<Row>,
+  repos: Repos,
+  store: RawFileStore,
+  opts: { limit: number; worker: string; leaseMs: number }
+): Promise<ParseResult> {
+  const result: ParseResult = { parsed: 0, failed: 0 };
+
+  for (let i = 0; i < opts.limit; i++) {
+    // קובץ אחד בכל פעם, כדי לא להחזיק claims על קבצים שעוד לא התחלנו
+    const now = Date.now();
+    const [f] = await repos.rawFiles.claimPending({
+      chain: job.chain,
+      storagePathLike: job.storagePathLike,
+      worker: opts.worker,
+      now: iso(now),
+      leaseUntil: iso(now + opts.leaseMs),
+      limit: 1,
+    });
+
+    if (!f) {
+      if (!i) console.log("No downloaded files to parse.");
+      break;
+    }
+
+    const outcome = await parseClaimed(job, repos, store, f, opts);
+    if (outcome === "parsed") result.parsed++;
+    if (outcome === "failed") result.failed++;
+  }
+
+  return result;
+}
+
+async function parseClaimed<Row>(
+  job: ParseJob<Row>,
+  repos: Repos,
+  store: RawFileStore,
+  f: RawFileRecord,
+  opts: { worker: string; leaseMs: number }
+): Promise<Outcome> {
+  let leaseUntil = Date.now() + opts.leaseMs;
+
+  // מאריך את ה-lease כשעבר חצי ממנו (או תמיד, עם force). false = worker אחר כבר לקח את הקובץ
+  const keepLease = async (force = false) => {
+    if (!force && leaseUntil - Date.now() > opts.leaseMs / 2) return true;
+    leaseUntil = Date.now() + opts.leaseMs;
+    return repos.rawFiles.renewLease(f.id, opts.worker, iso(leaseUntil));
+  };
+
+  const lost = (): Outcome => {
+    console.log(`[LEASE] ${f.storage_path} was claimed by another worker, leaving it`);
+    return "lost";
+  };
+
+  const ref: RawFileRef = {
+    id: f.id,
+    storage_path: f.storage_path ?? "",
+    store_id: f.store_id ? String(f.store_id) : null,
+    fetched_at: f.fetched_at ?? null,
+  };
+
+  // failed עם next_retry_at, או dead אם הקובץ שבור / נגמרו הניסיונות (core/retry.ts)
+  const markFailed = async (msg: string, written: boolean): Promise<Outcome> => {
+    if (written && job.discard) {
+      // לא מוחקים שורות של worker אחר שכבר לקח את הקובץ
+      if (!(await keepLease(true))) return lost();
+      try {
+        await job.discard(repos, ref);
+      } catch (e: any) {
+        msg += ` (discard failed: ${String(e?.message ?? e)})`;
+      }
+    }
+
+    const patch = failureFields(f.attempts ?? 0, msg, "parse");
+    if (!(await repos.rawFiles.finishClaim(f.id, opts.worker, patch))) return lost();
+    console.log(patch.status === "dead" ? `${msg} (dead after ${patch.attempts} attempts)` : msg);
+    return "failed";
+  };
+
+  if (!f.storage_path) return markFailed("Missing storage_path", false);
+
+  console.log("Parsing:", f.storage_path);
+
+  // פתיחה מה-Storage (Supabase או דיסק מקומי, לפי RAW_STORE)
+  let source: AsyncIterable<Uint8Array>;
+  try {
+    source = await store.stream(f.storage_path);
+  } catch (e: any) {
+    return markFailed(`Download failed: ${String(e?.message ?? e)}`, false);
+  }
+
+  const parsed = job.parse(xmlTextStream(source, { allowPlainXml: job.allowPlainXml }), ref);
+
+  // Inserts בבאצ'ים, תוך כדי קריאה. שגיאת parse נזרקת מה-for await, שגיאת insert נשמרת בנפרד
+  let insertError: string | null = null;
+  let leaseLost = false;
+  const flush = async (chunk: Row[]) => {
+    try {
+      await job.write(repos, chunk, ref);
+      leaseLost = !(await keepLease());
+    } catch (e: any) {
+      insertError = `Insert failed: ${String(e?.message ?? e)}`;
+    }
+  };
+
+  let count = 0;
+  try {
+    let batch: Row[] = [];
+    for await (const row of parsed.rows) {
+      batch.push(row);
+      count++;
+      if (batch.length < BATCH) continue;
+
+      await flush(batch);
+      batch = [];
+      if (insertError || leaseLost) break; // סוגר את הזרם
+    }
+    if (!insertError && !leaseLost && batch.length) await flush(batch);
+  } catch (e: any) {
+    return markFailed(String(e?.message ?? e), count > 0);
+  }
+
+  if (leaseLost) return lost();
+  if (insertError) return markFailed(insertError, true);
+
+  if (DEBUG) console.log("Rows written:", count);
+
+  let committed: boolean;
+  try {
+    committed = job.commit
+      ? await job.commit(repos, parsed, ref, opts.worker)
+      : await commitParsed(repos, ref, opts.worker, parsed.storeId());
+  } catch (e: any) {
+    return markFailed(`Commit failed: ${String(e?.message ?? e)}`, true);
+  }
+  if (!committed) return lost();
+
+  console.log(`Parsed OK. ${parsed.summary()}`);
+  return "parsed";
+}
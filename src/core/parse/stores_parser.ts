@@ -0,0 +1,156 @@
+import { runRawFileParser, type ParseOptions } from "./run_parser";
+import { iterateXmlRecords } from "./xml_stream";
+import { normalizeStoreId, numOrNull, pick, strOrNull } from "./xml_utils";
+
+/**
+ * Stores parser משותף לכל הרשתות -> טבלת stores (סניף אחד לכל שורה).
+ * מאפשר join של prices.store_id / promotions.store_id לסניף אמיתי עם שם, כתובת ועיר.
+ *
+ * שני המבנים שראינו:
+ * - publishedprices: <Root><ChainId/><SubChains><SubChain><SubChainId/><Stores><Store>...
+ * - שופרסל (SAP):   <asx:abap><asx:values><CHAINID/><STORES><STORE><SUBCHAINID/>...
+ */
+
+export type StoresFieldAliases = {
+  chainId: string[];
+  chainName: string[];
+  subChainId: string[];
+  subChainName: string[];
+  storeId: string[];
+  bikoretNo: string[];
+  storeType: string[];
+  storeName: string[];
+  address: string[];
+  city: string[];
+  zipCode: string[];
+};
+
+export type StoresDescriptor = {
+  chain: string; // slug כפי שנשמר ב-raw_files.chain
+  fields?: Partial<StoresFieldAliases>;
+};
+
+export type StoreRow = {
+  raw_file_id: string;
+  chain: string;
+  chain_id: string | null;
+  chain_name: string | null;
+  sub_chain_id: string | null;
+  sub_chain_name: string | null;
+  store_id: string;
+  bikoret_no: number | null;
+  store_type: number | null; // 1 = פיזי, 2 = אונליין, 3 = שניהם
+  store_name: string | null;
+  address: string | null;
+  city: string | null;
+  zip_code: string | null;
+};
+
+export type StoresFileHeader = {
+  chainId: string | null;
+  stores: number;
+};
+
+export type ParsedStores = {
+  header: StoresFileHeader;
+  rows: AsyncGenerator<StoreRow>;
+};
+
+const DEFAULT_FIELDS: StoresFieldAliases = {
+  chainId: ["ChainId", "ChainID", "CHAINID"],
+  chainName: ["ChainName", "CHAINNAME"],
+  subChainId: ["SubChainId", "SubChainID", "SUBCHAINID"],
+  subChainName: ["SubChainName", "SUBCHAINNAME"],
+  storeId: ["StoreId", "StoreID", "STOREID"],
+  bikoretNo: ["BikoretNo", "BIKORETNO"],
+  storeType: ["StoreType", "STORETYPE"],
+  storeName: ["StoreName", "STORENAME"],
+  address: ["Address", "ADDRESS"],
+  city: ["City", "CITY"],
+  zipCode: ["ZipCode", "ZIPCODE"],
+};
+
+export function resolveStoresFields(desc: StoresDescriptor): StoresFieldAliases {
+  return { ...DEFAULT_FIELDS, ...(desc.fields ?? {}) };
+}
+
+// "" / "unknown" / "0000000" -> null
+function cleanText(x: any): string | null {
+  const s = strOrNull(x)?.trim().replace(/\s+/g, " ");
+  if (!s || s.toLowerCase() === "unknown" || /^0+$/.test(s)) return null;
+  return s;
+}
+
+/**
+ * מפרק XML של Stores לשורות stores, סניף אחד בכל פעם.
+ * ה-SubChain של כל Store נלקח מה-Store עצמו, ואם אין אז מה-SubChain האחרון שנפתח מעליו.
+ * זורק Error עם הודעה קצרה (נשמרת ב-raw_files.error) כשהמבנה לא תקין.
+ */
+export function parseStoresStream(
+  xml: AsyncIterable<string>,
+  desc: StoresDescriptor,
+  ctx: { rawFileId: string }
+): ParsedStores {
+  const fields = resolveStoresFields(desc);
+  const header: StoresFileHeader = { chainId: null, stores: 0 };
+
+  async function* rows(): AsyncGenerator<StoreRow> {
+    const seen = new Set<string>();
+
+    for await (const { node, header: h } of iterateXmlRecords(xml, ["Store"])) {
+      header.chainId ??= strOrNull(pick(h, fields.chainId));
+
+      const storeIdStr = strOrNull(pick(node, fields.storeId));
+      if (!storeIdStr) continue;
+
+      const storeId = normalizeStoreId(storeIdStr);
+      if (seen.has(storeId)) continue;
+      seen.add(storeId);
+      header.stores++;
+
+      yield {
+        raw_file_id: ctx.rawFileId,
+        chain: desc.chain,
+        chain_id: header.chainId,
+        chain_name: cleanText(pick(node, fields.chainName)) ?? cleanText(pick(h, fields.chainName)),
+        sub_chain_id: strOrNull(pick(node, fields.subChainId)) ?? strOrNull(pick(h, fields.subChainId)),
+        sub_chain_name: cleanText(pick(node, fields.subChainName)) ?? cleanText(pick(h, fields.subChainName)),
+        store_id: storeId,
+        bikoret_no: numOrNull(pick(node, fields.bikoretNo)),
+        store_type: numOrNull(pick(node, fields.storeType)),
+        store_name: cleanText(pick(node, fields.storeName)),
+        address: cleanText(pick(node, fields.address)),
+        city: cleanText(pick(node, fields.city)),
+        zip_code: cleanText(pick(node, fields.zipCode)),
+      };
+    }
+
+    if (!seen.size) throw new Error("No Stores in XML");
+  }
+
+  return { header, rows: rows() };
+}
+
+/**
+ * לוקח קבצי Stores שהורדו ועדיין לא פורקו ומעדכן את stores (סניף קיים נדרס בנתונים החדשים).
+ */
+export async function runStoresParser(desc: StoresDescriptor, opts: ParseOptions = {}) {
+  return runRawFileParser<StoreRow>(
+    {
+      chain: desc.chain,
+      storagePathLike: "%/Stores%",
+      // בלי discard: כל שורה היא סניף שלם (conflict: chain,store_id), וקובץ חלקי רק מרענן חלק מהסניפים
+      write: (repos, rows) => repos.stores.upsert(rows),
+      allowPlainXml: true,
+      parse: (xml, f) => {
+        const parsed = parseStoresStream(xml, desc, { rawFileId: f.id });
+        return {
+          rows: parsed.rows,
+          storeId: () => null,
+          summary: () => `stores=${parsed.header.stores} chainId=${parsed.header.chainId ?? "?"}`,
+        };
+      },
+    },
+    opts
+  );
+}
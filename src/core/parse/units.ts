@@ -0,0 +1,102 @@
+/**
+ * נרמול יחידות מידה, כדי שאפשר יהיה להשוות מחירים בין רשתות.
+ * כל Item מגיע עם Quantity + UnitQty ("500" + "גרמים") ועם UnitOfMeasure ("100 גרם"), בכתיבים שונים
+ * אצל כל רשת. כאן כל כתיב ממופה ליחידת בסיס (ק"ג / ליטר / יחידה / מטר) ומחושב price_per_base_unit:
+ * 500 גרם ב-6.30 ו-1 ק"ג ב-12.00 -> 12.60 מול 12.00 לק"ג.
+ *
+ * פריט שקיל (bIsWeighted): ItemPrice הוא כבר המחיר ליחידת המידה (בדרך כלל ק"ג), לא לאריזה.
+ */
+
+export type BaseUnit = "kg" | "l" | "unit" | "m";
+
+// למה אין price_per_base_unit לשורה
+export type UnitIssue =
+  | "unknown_unit" // אף אחד משדות היחידה לא מוכר ("לא ידוע", "1", ריק)
+  | "missing_quantity" // יחידה מוכרת אבל Quantity חסר או 0
+  | "missing_price"; // ItemPrice 0 או שלילי
+
+export type UnitPrice = {
+  base_unit: BaseUnit | null;
+  base_qty: number | null; // כמות באריזה ביחידות בסיס (0.5 ל-500 גרם); null לפריט שקיל
+  price_per_base_unit: number | null;
+  unit_issue: UnitIssue | null;
+};
+
+export type UnitFields = {
+  price: number;
+  unit_qty: number | null; // Quantity
+  qty_unit: string | null; // UnitQty: היחידה של Quantity
+  unit_of_measure: string | null; // UnitOfMeasure: היחידה שלפיה משווים ("100 גרם", "ק\"ג")
+  is_weighted: boolean | null;
+};
+
+type Measure = {
+  unit: BaseUnit;
+  factor: number; // כמה יחידות בסיס ביחידה אחת (גרם = 0.001 ק"ג)
+  amount: number | null; // המספר שלפני היחידה ("100 גרם" -> 100)
+};
+
+// כל הכתיבים שראינו, אחרי normalizeUnitText (בלי גרשיים, נקודות ורווחים)
+const UNIT_ALIASES: [BaseUnit, number, string[]][] = [
+  ["kg", 0.001, ["גרם", "גרמים", "גר", "ג", "g", "gr", "grm", "gram", "grams"]],
+  ["kg", 1, ["קג", "קילו", "קילוגרם", "קילוגרמים", "kg", "kilo", "kilogram"]],
+  ["kg", 0.000001, ["מג", "מיליגרם", "mg"]],
+  ["l", 0.001, ["מל", "מיליליטר", "מיליליטרים", "מליליטר", "סמק", "ml", "cc"]],
+  ["l", 1, ["ליטר", "ליטרים", "ליט", "ל", "l", "lt", "ltr", "liter", "litre"]],
+  ["unit", 1, ["יח", "יחידה", "יחידות", "קרטון", "מארז", "אריזה", "unit", "units", "pcs", "pc"]],
+  ["m", 1, ["מטר", "מטרים", "m", "meter", "meters"]],
+  ["m", 0.01, ["סמ", "סנטימטר", "cm"]],
+];
+
+const UNITS = new Map<string, { unit: BaseUnit; factor: number }>(
+  UNIT_ALIASES.flatMap(([unit, factor, names]) => names.map((n) => [n, { unit, factor }] as const))
+);
+
+// 'ק"ג' / "ק''ג" / "ק״ג" / "KG." -> "קג" / "kg"
+function normalizeUnitText(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/["'`״׳.]/g, "")
+    .replace(/\s+/g, "");
+}
+
+/**
+ * "100 גרם" / "ק\"ג" / "8   יח" / "00000000000000000גרם" -> יחידת בסיס + המספר שלפניה (0 = אין מספר).
+ * null כשהיחידה לא מוכרת.
+ */
+export function parseMeasure(text: string | null | undefined): Measure | null {
+  const m = String(text ?? "")
+    .trim()
+    .match(/^(\d+(?:\.\d+)?)?\s*(.*)$/);
+  const spec = m && UNITS.get(normalizeUnitText(m[2]));
+  if (!spec) return null;
+
+  const amount = m[1] ? Number(m[1]) : null;
+  return { ...spec, amount: amount && amount > 0 ? amount : null };
+}
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export function normalizeUnitPrice(row: UnitFields): UnitPrice {
+  const qtyUnit = parseMeasure(row.qty_unit);
+  const measure = parseMeasure(row.unit_of_measure);
+
+  // שקיל: המחיר הוא ל-UnitOfMeasure ("ק\"ג", לפעמים "100 גרם"); אין כמות באריזה
+  // רגיל: Quantity הוא ביחידות של UnitQty; UnitOfMeasure רק כשאין UnitQty מוכר
+  const m = row.is_weighted ? (measure ?? qtyUnit) : (qtyUnit ?? measure);
+  if (!m) return { base_unit: null, base_qty: null, price_per_base_unit: null, unit_issue: "unknown_unit" };
+
+  const base = { base_unit: m.unit, base_qty: null, price_per_base_unit: null };
+  if (!(row.price > 0)) return { ...base, unit_issue: "missing_price" };
+
+  if (row.is_weighted) {
+    const per = (m.amount ?? 1) * m.factor;
+    return { ...base, price_per_base_unit: round(row.price / per, 4), unit_issue: null };
+  }
+
+  if (!row.unit_qty || row.unit_qty <= 0) return { ...base, unit_issue: "missing_quantity" };
+
+  const baseQty = round(row.unit_qty * m.factor, 6);
+  if (!baseQty) return { ...base, unit_issue: "missing_quantity" };
+  return { ...base, base_qty: baseQty, price_per_base_unit: round(row.price / baseQty, 4), unit_issue: null };
+}
@@ -0,0 +1,188 @@
+import { Readable, pipeline } from "node:stream";
+import zlib from "node:zlib";
+import sax from "sax";
+import { isGzip, looksLikeXml, xmlEncoding } from "./xml_utils";
+
+/**
+ * פירוק XML בזרימה: bytes (gz או xml) -> gunzip -> טקסט -> SAX -> רשומה אחת בכל פעם.
+ * הזיכרון חסום בגודל ה-chunk ובגודל רשומה אחת, לא בגודל הקובץ,
+ * כך ש-PriceFull של סניף גדול (עשרות אלפי פריטים) לא נטען כולו לזיכרון.
+ */
+
+const DEBUG = process.env.DEBUG_PARSE === "1";
+const HEAD_BYTES = 200;
+
+export type XmlRecord = {
+  tag: string; // שם התגית של הרשומה (Item / Promotion / Store)
+  // אותו מבנה ש-fast-xml-parser היה מחזיר: טקסט, אובייקט (attributes + ילדים), מערך לתגיות חוזרות.
+  // הערכים תמיד מחרוזות (בלי המרה למספרים), כך ש-ItemCode עם אפסים מובילים נשמר כמו שהוא
+  node: any;
+  // ערכי העלים שמחוץ לרשומות שנראו עד הרשומה הזו (ChainId, StoreId, SubChainId של ה-SubChain הנוכחי...)
+  header: Record<string, string>;
+};
+
+// קורא את ה-bytes הראשונים בלי לאבד אותם: all מחזיר את כל הזרם מההתחלה
+async function peek(source: AsyncIterable<Uint8Array>, n: number) {
+  const it = source[Symbol.asyncIterator]();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let done = false;
+
+  while (size < n) {
+    const r = await it.next();
+    if (r.done) {
+      done = true;
+      break;
+    }
+    chunks.push(r.value);
+    size += r.value.length;
+  }
+
+  async function* all() {
+    yield* chunks;
+    if (done) return;
+    for (let r = await it.next(); !r.done; r = await it.next()) yield r.value;
+  }
+
+  return { head: Buffer.concat(chunks).subarray(0, n), all: all() };
+}
+
+/**
+ * bytes של קובץ גולמי -> chunks של טקסט.
+ * gzip נפתח בזרימה; XML לא מכווץ מתקבל רק עם allowPlainXml (Stores). UTF-16 לפי BOM.
+ */
+export async function* xmlTextStream(
+  source: AsyncIterable<Uint8Array>,
+  opts: { allowPlainXml?: boolean } = {}
+): AsyncGenerator<string> {
+  const { head, all } = await peek(source, HEAD_BYTES);
+
+  let bytes: AsyncIterable<Uint8Array>;
+  if (isGzip(head)) {
+    const gunzip = zlib.createGunzip();
+    // pipeline מעביר שגיאה של המקור ל-gunzip, וה-for await למטה זורק אותה
+    pipeline(Readable.from(all), gunzip, () => {});
+    bytes = gunzip;
+  } else if (opts.allowPlainXml && looksLikeXml(head)) {
+    bytes = all;
+  } else {
+    if (DEBUG) console.log("NOT GZIP. First bytes:\n", new TextDecoder("utf-8").decode(head));
+    throw new Error("Not a gzip file (magic bytes missing)");
+  }
+
+  let decoder: TextDecoder | null = null;
+  for await (const chunk of bytes) {
+    decoder ??= new TextDecoder(xmlEncoding(chunk));
+    const text = decoder.decode(chunk, { stream: true });
+    if (text) yield text;
+  }
+
+  const tail = decoder?.decode() ?? "";
+  if (tail) yield tail;
+}
+
+type Frame = {
+  tag: string;
+  attrs: Record<string, string>;
+  children: Record<string, any> | null;
+  text: string;
+};
+
+// תגית חוזרת הופכת למערך, כמו ב-fast-xml-parser
+function addChild(children: Record<string, any>, tag: string, value: any) {
+  if (!(tag in children)) children[tag] = value;
+  else if (Array.isArray(children[tag])) children[tag].push(value);
+  else children[tag] = [children[tag], value];
+}
+
+function frameValue(f: Frame): any {
+  const text = f.text.trim();
+  if (!f.children && !Object.keys(f.attrs).length) return text;
+
+  const node: Record<string, any> = { ...f.attrs, ...(f.children ?? {}) };
+  if (text) node["#text"] = text;
+  return node;
+}
+
+/**
+ * מחזיר את הרשומות (אלמנטים ש-tag שלהם ב-recordTags, בלי תלות ב-case) אחת-אחת.
+ * אלמנטים בתוך רשומה נבנים לאובייקט; מחוץ לרשומות נשמרים רק ערכי עלים, ב-header
+ * (אפשר להעביר header משלך כדי לקרוא אותו גם אחרי הסוף, למשל בקובץ בלי רשומות).
+ * זורק Error כשה-XML שבור או ריק.
+ */
+export async function* iterateXmlRecords(
+  text: AsyncIterable<string>,
+  recordTags: string[],
+  header: Record<string, string> = {}
+): AsyncGenerator<XmlRecord> {
+  const wanted = new Set(recordTags.map((t) => t.toLowerCase()));
+  const parser = sax.parser(true, { trim: false, normalize: false });
+
+  const ready: XmlRecord[] = [];
+  const stack: Frame[] = []; // אלמנטים פתוחים בתוך הרשומה הנוכחית
+
+  let sawElement = false;
+  let leafTag: string | null = null; // עלה פתוח מחוץ לרשומה
+  let leafText = "";
+  let parseError: Error | null = null;
+
+  parser.onopentag = (t) => {
+    sawElement = true;
+    const attrs = t.attributes as Record<string, string>;
+
+    if (stack.length || wanted.has(t.name.toLowerCase())) {
+      stack.push({ tag: t.name, attrs, children: null, text: "" });
+      return;
+    }
+
+    leafTag = t.name;
+    leafText = "";
+    for (const [k, v] of Object.entries(attrs)) header[k] = v;
+  };
+
+  parser.ontext = parser.oncdata = (s) => {
+    if (stack.length) stack[stack.length - 1].text += s;
+    else if (leafTag) leafText += s;
+  };
+
+  parser.onclosetag = (name) => {
+    if (!stack.length) {
+      if (leafTag === name && leafText.trim()) header[name] = leafText.trim();
+      leafTag = null;
+      leafText = "";
+      return;
+    }
+
+    const f = stack.pop()!;
+    const value = frameValue(f);
+
+    if (!stack.length) {
+      ready.push({ tag: f.tag, node: value, header: { ...header } });
+      return;
+    }
+
+    const parent = stack[stack.length - 1];
+    parent.children ??= {};
+    addChild(parent.children, f.tag, value);
+  };
+
+  parser.onerror = (e) => {
+    parseError ??= new Error(`XML parse error: ${String(e.message).split("\n")[0]}`);
+  };
+
+  const drain = function* () {
+    if (parseError) throw parseError;
+    yield* ready;
+    ready.length = 0;
+  };
+
+  for await (const chunk of text) {
+    parser.write(chunk);
+    yield* drain();
+  }
+
+  parser.close();
+  yield* drain();
+
+  if (!sawElement) throw new Error("XML missing root");
+}
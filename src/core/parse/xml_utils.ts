@@ -0,0 +1,76 @@
+export function toArray<T>(x: any): T[] {
+  if (!x) return [];
+  return Array.isArray(x) ? x : [x];
+}
+
+export function numOrNull(x: any): number | null {
+  if (x == null || x === "") return null;
+  const n = Number(x);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function strOrNull(x: any): string | null {
+  return x != null ? String(x) : null;
+}
+
+// "1" / "true" => true, "0" / "false" => false, חסר => null
+export function boolOrNull(x: any): boolean | null {
+  if (x == null || x === "") return null;
+  const s = String(x).trim().toLowerCase();
+  return s === "1" || s === "true";
+}
+
+// מחזיר את הערך של ה-alias הראשון שקיים באובייקט
+export function pick(obj: any, aliases: string[]): any {
+  for (const k of aliases) {
+    if (obj?.[k] != null) return obj[k];
+  }
+  return null;
+}
+
+export function isGzip(buf: Uint8Array) {
+  // gzip magic bytes: 1F 8B
+  return buf.length > 2 && buf[0] === 0x1f && buf[1] === 0x8b;
+}
+
+// קובץ XML לא מכווץ (Stores אצל publishedprices) ולא דף HTML של login
+export function looksLikeXml(buf: Uint8Array) {
+  const head = decodeXml(buf.slice(0, 200)).trimStart().toLowerCase();
+  return head.startsWith("<?xml") || head.startsWith("<root") || head.startsWith("<asx:");
+}
+
+// UTF-8 כברירת מחדל, UTF-16 לפי BOM (יש רשתות ששולחות Stores ב-UTF-16)
+export function xmlEncoding(head: Uint8Array): "utf-8" | "utf-16le" | "utf-16be" {
+  if (head.length >= 2 && head[0] === 0xff && head[1] === 0xfe) return "utf-16le";
+  if (head.length >= 2 && head[0] === 0xfe && head[1] === 0xff) return "utf-16be";
+  return "utf-8";
+}
+
+export function decodeXml(buf: Uint8Array): string {
+  return new TextDecoder(xmlEncoding(buf)).decode(buf);
+}
+
+// StoreId כפי שמופיע ב-XML ("9" / "009" / "0009") -> 3 ספרות לפחות, בלי אפסים מובילים מיותרים
+export function normalizeStoreId(s: string): string {
+  return s.trim().replace(/^0+(?=\d)/, "").padStart(3, "0");
+}
+
+// filename pattern של רשת: group 1 = store id
+export function storeIdFromFilename(pattern: RegExp, nameOrPath: string): string | null {
+  const m = nameOrPath.match(pattern);
+  return m?.[1] ? m[1].padStart(3, "0") : null;
+}
+
+// filename pattern של רשת: group 2 = חותמת זמן (YYYYMMDDHHMM / YYYYMMDD-HHMMSS) -> "YYYY-MM-DD HH:MM:SS"
+export function fileAtFromFilename(pattern: RegExp, nameOrPath: string): string | null {
+  const m = nameOrPath.match(pattern);
+  const digits = m?.[2]?.replace(/\D/g, "");
+  if (!digits || digits.length < 12) return null;
+  const ss = digits.length >= 14 ? digits.slice(12, 14) : "00";
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)} ${digits.slice(8, 10)}:${digits.slice(10, 12)}:${ss}`;
+}
+
+// "YYYY-MM-DD HH:MM:SS" בשעון ישראל, כמו החותמות בשמות הקבצים
+export function israelTime(date = new Date()): string {
+  return date.toLocaleString("sv-SE", { timeZone: "Asia/Jerusalem" });
+}
@@ -0,0 +1,123 @@
+import type { ChainDefinition, CollectOptions, CollectResult } from "../chains/types";
+import { reposFromEnv } from "../db/repos";
+import { runPriceFullParser } from "../parse/price_full_parser";
+import { runPromoParser } from "../parse/promo_parser";
+import type { ParseOptions, ParseResult } from "../parse/run_parser";
+import { runStoresParser } from "../parse/stores_parser";
+import { requeueParseFailures } from "../retry";
+import { rawFileStoreFromEnv } from "../storage/raw_file_store";
+import { supabaseFromEnv } from "../supabase/client";
+
+/**
+ * מריץ collect -> parse לכל רשת שנבחרה, באותו process (בלי npx tsx לכל parser),
+ * ואז aggregate פעם אחת לכולן. כישלון של רשת אחת לא עוצר את האחרות.
+ */
+
+export type PipelineStep = "collect" | "parse" | "aggregate";
+
+export const ALL_STEPS: PipelineStep[] = ["collect", "parse", "aggregate"];
+
+export type ParseKind = "prices" | "promo" | "stores";
+
+export const PARSE_KINDS: ParseKind[] = ["prices", "promo", "stores"];
+
+export type PipelineOptions = {
+  steps: PipelineStep[];
+  collect: Omit<CollectOptions, "store" | "repos">;
+  parse: Omit<ParseOptions, "store" | "repos"> & { kinds?: ParseKind[] };
+  daysBack: number; // ל-aggregate
+};
+
+export type ChainRunResult = {
+  chain: string;
+  collected: CollectResult | null; // null = לא רץ / נכשל
+  parsed: Partial<Record<ParseKind, ParseResult>>;
+  errors: string[]; // "<step>: <message>"
+  durationMs: number;
+};
+
+export type PipelineResult = {
+  chains: ChainRunResult[];
+  aggregate: "done" | "skipped" | { error: string };
+};
+
+// PriceFull + Price -> prices, current_prices / Promo + PromoFull -> promotions / Stores -> stores
+export function runChainParser(chain: ChainDefinition, kind: ParseKind, opts: ParseOptions = {}): Promise<ParseResult> {
+  switch (kind) {
+    case "prices":
+      return runPriceFullParser(chain.parsers.prices, opts);
+    case "promo":
+      return runPromoParser(chain.parsers.promo, opts);
+    case "stores":
+      return runStoresParser(chain.parsers.stores, opts);
+  }
+}
+
+const errMsg = (e: any) => String(e?.message ?? e);
+
+export async function runPipeline(chains: ChainDefinition[], opts: PipelineOptions): Promise<PipelineResult> {
+  const supabase = supabaseFromEnv();
+  const repos = reposFromEnv(supabase);
+
+  try {
+    const store = rawFileStoreFromEnv(supabase);
+    const results: ChainRunResult[] = [];
+
+    for (const chain of chains) {
+      const started = Date.now();
+      const res: ChainRunResult = { chain: chain.slug, collected: null, parsed: {}, errors: [], durationMs: 0 };
+
+      if (opts.steps.includes("collect")) {
+        console.log(`\n=== ${chain.slug}: COLLECT (${opts.collect.fileTypes.join(" + ")}) ===`);
+        try {
+          res.collected = await chain.collect({ ...opts.collect, store, repos });
+        } catch (e) {
+          // גם אם ההורדה נכשלה ממשיכים לפרק מה שכבר ממתין
+          res.errors.push(`collect: ${errMsg(e)}`);
+          console.log(`[ERROR] ${chain.slug} collect failed:`, errMsg(e));
+        }
+      }
+
+      if (opts.steps.includes("parse")) {
+        // כשלונות פירוק שהגיע זמן הניסיון הבא שלהם חוזרים לתור לפני הפירוק
+        try {
+          const requeued = await requeueParseFailures(repos, chain.slug);
+          if (requeued) console.log(`[RETRY] ${chain.slug}: ${requeued} failed files back in the parse queue`);
+        } catch (e) {
+          res.errors.push(`retry: ${errMsg(e)}`);
+          console.log(`[ERROR] ${chain.slug} retry requeue failed:`, errMsg(e));
+        }
+
+        for (const kind of opts.parse.kinds ?? PARSE_KINDS) {
+          console.log(`\n=== ${chain.slug}: PARSE ${kind} ===`);
+          try {
+            res.parsed[kind] = await runChainParser(chain, kind, { limit: opts.parse.limit, store, repos });
+          } catch (e) {
+            res.errors.push(`parse ${kind}: ${errMsg(e)}`);
+            console.log(`[ERROR] ${chain.slug} parse ${kind} failed:`, errMsg(e));
+          }
+        }
+      }
+
+      res.durationMs = Date.now() - started;
+      results.push(res);
+    }
+
+    let aggregate: PipelineResult["aggregate"] = "skipped";
+    if (opts.steps.includes("aggregate")) {
+      console.log("\n=== AGGREGATE DAILY ===");
+      try {
+        await repos.stats.refreshDaily(opts.daysBack);
+        aggregate = "done";
+      } catch (e) {
+        // לא מכשילים את כל הריצה אם אין עדיין את ה-RPC (ראה migrations)
+        aggregate = { error: errMsg(e) };
+        console.log("Aggregate failed:", errMsg(e));
+      }
+    }
+
+    return { chains: results, aggregate };
+  } finally {
+    await repos.close();
+  }
+}
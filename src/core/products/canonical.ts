@@ -0,0 +1,117 @@
+import { parseMeasure, type BaseUnit } from "../parse/units";
+import { NAME_RULES, STOPWORDS, SYNONYMS } from "./canonical_rules";
+
+/**
+ * canonical_key: מפתח לשם מוצר, כדי שאותו מוצר ייכתב אותו דבר בכל רשת גם בלי ברקוד.
+ * השם עובר את NAME_RULES לפי הסדר (canonical_rules.ts): ניקוד, וריאציות של גרש / גרשיים, קיצורים,
+ * מותגים, ושליפת גודל / מספר יחידות / אחוז שומן לשדות נפרדים. מה שנשאר מתפרק למילים, עובר מילון
+ * מילים נרדפות ומילות סתם, ומתמיין (סדר המילים לא משנה).
+ *
+ * גודל ומספר יחידות לא נכנסים למפתח (משווים ביניהם לפי price_per_base_unit); אחוז שומן כן נכנס,
+ * כי חלב 1% וחלב 3% הם מוצרים שונים.
+ */
+
+export type NameAttributes = {
+  brand: string | null;
+  size_qty: number | null; // גודל של יחידה אחת לפי השם, ביחידות בסיס ("3*85 גרם" -> 0.085)
+  size_unit: BaseUnit | null;
+  pack_count: number | null; // "3*85 גרם", "16 יח'", "שישייה"
+  fat_pct: number | null;
+};
+
+export type CanonicalName = { canonical_key: string | null } & NameAttributes;
+
+export type NameRule =
+  | { name: string; kind: "replace"; pattern: RegExp; with: string }
+  // מתאים לשם מותג -> brand (אם עוד לא נקבע), והשם מוחלף בצורה הקנונית
+  | { name: string; kind: "brand"; pattern: RegExp; brand: string }
+  // ההתאמה הראשונה נשלפת לשדות שעוד ריקים ונמחקת מהשם. כשכל השדות שלה כבר מולאו היא רק נמחקת
+  // ("חומוס זוג 2*200"). המספרים הם אינדקסים של groups
+  | {
+      name: string;
+      kind: "extract";
+      pattern: RegExp;
+      when?: RegExp; // רק כשהשם (בשלב הזה) מתאים
+      size?: [amount: number, unit: number];
+      pack?: number | { value: number };
+      fat?: number;
+    };
+
+// צעד אחד בפירוק שם, לדיבוג (check_canonical.ts)
+export type RuleStep = { rule: string; text: string };
+
+const REGULAR_LETTERS: Record<string, string> = { ך: "כ", ם: "מ", ן: "נ", ף: "פ", ץ: "צ" };
+const FINAL_LETTERS: Record<string, string> = { כ: "ך", מ: "ם", נ: "ן", פ: "ף", צ: "ץ" };
+
+// אות סופית רק בסוף מילה ("בדצ" = "בדץ", "מהדרינ" = "מהדרין"), ו-יי / וו של כתיב מלא: "עגבנייה" = "עגבניה"
+function normalizeToken(t: string): string {
+  return t
+    .replace(/[ךםןףץ](?=.)/g, (c) => REGULAR_LETTERS[c])
+    .replace(/(?<=.)[כמנפצ]$/, (c) => FINAL_LETTERS[c])
+    .replace(/(?<=.)יי/g, "י")
+    .replace(/(?<=.)וו/g, "ו");
+}
+
+const SYNONYM_MAP = new Map(Object.entries(SYNONYMS).map(([from, to]) => [normalizeToken(from), normalizeToken(to)]));
+const STOPWORD_SET = new Set(STOPWORDS.map(normalizeToken));
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+function applyExtract(rule: Extract<NameRule, { kind: "extract" }>, text: string, attrs: NameAttributes): string {
+  const size = rule.size && !attrs.size_unit;
+  const pack = rule.pack && attrs.pack_count == null;
+  const fat = rule.fat && attrs.fat_pct == null;
+  if (rule.when && !rule.when.test(text)) return text;
+
+  const m = rule.pattern.exec(text);
+  if (!m) return text;
+
+  if (size && rule.size) {
+    const measure = parseMeasure(`${m[rule.size[0]]} ${m[rule.size[1]]}`);
+    if (measure?.amount) {
+      attrs.size_unit = measure.unit;
+      attrs.size_qty = round(measure.amount * measure.factor, 6);
+    }
+  }
+  if (pack && rule.pack) attrs.pack_count = typeof rule.pack === "number" ? Number(m[rule.pack]) : rule.pack.value;
+  if (fat && rule.fat) attrs.fat_pct = Number(m[rule.fat]);
+
+  return `${text.slice(0, m.index)} ${text.slice(m.index + m[0].length)}`;
+}
+
+function applyRule(rule: NameRule, text: string, attrs: NameAttributes): string {
+  switch (rule.kind) {
+    case "replace":
+      return text.replace(rule.pattern, rule.with);
+    case "brand":
+      if (!rule.pattern.test(text)) return text;
+      attrs.brand ??= rule.brand;
+      return text.replace(rule.pattern, ` ${rule.brand} `);
+    case "extract":
+      return applyExtract(rule, text, attrs);
+  }
+}
+
+export function canonicalizeName(name: string, trace?: RuleStep[]): CanonicalName {
+  const attrs: NameAttributes = { brand: null, size_qty: null, size_unit: null, pack_count: null, fat_pct: null };
+  // רווחים בקצוות כדי שתבניות עם גבולות מילה יתפסו גם בתחילת / סוף השם
+  let text = ` ${name.normalize("NFC").toLowerCase()} `;
+
+  for (const rule of NAME_RULES) {
+    rule.pattern.lastIndex = 0;
+    const next = applyRule(rule, text, attrs);
+    if (trace && next !== text) trace.push({ rule: rule.name, text: next.trim().replace(/\s+/g, " ") });
+    text = next;
+  }
+
+  const tokens = new Set<string>();
+  for (const word of text.split(/\s+/)) {
+    const t = normalizeToken(word);
+    const canonical = SYNONYM_MAP.get(t) ?? t;
+    if (canonical && !STOPWORD_SET.has(canonical)) tokens.add(canonical);
+  }
+  if (attrs.fat_pct != null) tokens.add(`${attrs.fat_pct}%`);
+
+  const key = [...tokens].sort().join(" ");
+  return { canonical_key: key || null, ...attrs };
+}
@@ -0,0 +1,140 @@
+import type { NameRule } from "./canonical";
+
+/**
+ * הכללים והמילונים של canonicalizeName (canonical.ts). הכללים רצים לפי הסדר על השם כולו (אחרי lowercase),
+ * ואחריהם SYNONYMS ו-STOPWORDS על כל מילה. כל שינוי כאן צריך לעבור את canonical_golden.json:
+ *   npx tsx src/core/products/check_canonical.ts
+ */
+
+const LETTER = "\\u05D0-\\u05EAa-z";
+
+// תבנית שלא מתחילה / נגמרת באמצע מילה (\b לא עובד על עברית)
+function word(source: string, flags = "g"): RegExp {
+  return new RegExp(`(?<![${LETTER}])(?:${source})(?![${LETTER}'"])`, flags);
+}
+
+// יחידות כפי שהן נכתבות בשמות ("ליט" = ליטר שנחתך); ההמרה ליחידת בסיס ב-parseMeasure
+const UNIT = `(ק"ג|קג|קילו|גרם|גר'?|ג'?|מ"ל|מל|ליטר|ליט|ל'?|kg|gr|g|ml|l)`;
+const NUM = `(?<![\\d.])(\\d+(?:\\.\\d+)?)`;
+// "x" רק כשהוא לא חלק ממילה לועזית ("max")
+const TIMES = `\\s*(?:[*×]|x(?![a-z]))\\s*`;
+
+// מוצרי חלב: רק בהם "N%" הוא אחוז שומן ולא קקאו / מיץ / אלכוהול
+const FAT_CONTEXT = word(
+  "חלב|גבינ[הת]?|קוטג'?|יוגורט|יגורט|שמנת|לבנה|לאבנה|בולגרית|פטה|צפתית|מעדן|מילקי|סקי|קשקבל|מוצרלה|ריקוטה|גאודה|" +
+    "צ'?דר|קממברט|עמק|גבנצ|אשל|גיל|לבן|דנונה|יופלה",
+  ""
+);
+
+// קיצורים וכתיבים חלופיים, על הטקסט (לפני ניקוי הפיסוק): [תבנית, צורה קנונית]
+const ABBREVIATIONS: [string, string][] = [
+  [`בד"צ|בדץ|בדצ|ב\\.ד\\.צ\\.?`, "בד״צ"],
+  [`מהדרין|מהדרי|מהדר|מהד'?`, "מהדרין"],
+  [`כשל"פ|כשר לפסח`, "כשל״פ"],
+  [`ל\\.גלוטן|נטול גלוטן`, "ללא גלוטן"],
+  [`ל\\.סוכר`, "ללא סוכר"],
+  [`ט\\.עוף`, "טעם עוף"],
+  [`ט\\.בקר`, "טעם בקר"],
+  [`ש\\.שועל`, "שיבולת שועל"],
+  [`תפו"א`, "תפוחי אדמה"],
+  [`אורג'`, "אורגני"],
+];
+
+// מותג קנוני -> כתיבים (תבניות). מותג שמופיע בשם נשאר במפתח ונשמר גם ב-brand
+const BRANDS: Record<string, string[]> = {
+  תנובה: ["תנובה", "tnuva"],
+  טרה: ["טרה"],
+  יטבתה: ["יטבתה"],
+  שטראוס: ["שטראוס", "strauss"],
+  עלית: ["עלית", "elite"],
+  אסם: ["אסם", "osem"],
+  תלמה: ["תלמה"],
+  סוגת: ["סוגת"],
+  נסטלה: ["נסטלה", "nestle"],
+  "קוקה קולה": ["קוקה קולה", "קוקהקולה", "coca cola"],
+  דנונה: ["דנונה", "danone"],
+  יופלה: ["יופלה", "yoplait"],
+  מולר: ["מולר", "muller", "müller"],
+  שוופס: ["שוופס", "schweppes"],
+  סנו: ["סנו"],
+  קולגייט: ["קולגייט", "colgate"],
+  מחפוד: ["מחפוד"],
+  זוגלובק: ["זוגלובק"],
+  גולדסטאר: ["גולדסטאר", "גולד סטאר"],
+  // מותג פרטי; בסוף שם שנחתך מופיע גם "יוח" / "יוחננ"
+  יוחננוף: ["יוחננוף", "יוח[נו]*(?=\\s*$)"],
+};
+
+export const NAME_RULES: NameRule[] = [
+  // תווים
+  { name: "niqqud", kind: "replace", pattern: /[\u0591-\u05BD\u05BF-\u05C7]/g, with: "" },
+  { name: "dashes", kind: "replace", pattern: /[\u05BE\u2010-\u2015-]/g, with: " " },
+  { name: "gershayim", kind: "replace", pattern: /[\u05F4\u201C\u201D\u201E]|''/g, with: '"' },
+  { name: "geresh", kind: "replace", pattern: /[\u05F3\u2018\u2019`\u00B4]/g, with: "'" },
+  { name: "promo", kind: "replace", pattern: /\*?מבצע\*?/g, with: " " },
+
+  ...ABBREVIATIONS.map(([source, to]): NameRule => ({
+    name: `abbr:${to}`,
+    kind: "replace",
+    pattern: word(source),
+    with: ` ${to} `,
+  })),
+
+  // מארזים
+  { name: "pack:6", kind: "extract", pattern: word("שישי{1,2}[הת]", ""), pack: { value: 6 } },
+  { name: "pack:4", kind: "extract", pattern: word("רביעי{1,2}[הת]|רביעיי?(?=\\s*$)", ""), pack: { value: 4 } },
+  { name: "pack:3", kind: "extract", pattern: word("שלישי{1,2}[הת]|שלישיי?(?=\\s*$)", ""), pack: { value: 3 } },
+  { name: "pack:2", kind: "extract", pattern: word("זוג", ""), pack: { value: 2 } },
+
+  // גודל ומספר יחידות: "3*85 גרם", "1.5 ליטר x 6", "500 גרם", "16 יח'", "2*100", "x6", "3*" (שם שנחתך)
+  { name: "pack*size", kind: "extract", pattern: word(`(\\d+)${TIMES}${NUM}\\s*${UNIT}`, ""), pack: 1, size: [2, 3] },
+  { name: "size*pack", kind: "extract", pattern: word(`${NUM}\\s*${UNIT}${TIMES}(\\d+)`, ""), size: [1, 2], pack: 3 },
+  { name: "size", kind: "extract", pattern: word(`${NUM}\\s*${UNIT}`, ""), size: [1, 2] },
+  { name: "units", kind: "extract", pattern: word(`(\\d+)\\s*(?:יחידות|יח'?)`, ""), pack: 1 },
+  { name: "pack*", kind: "extract", pattern: new RegExp(`(\\d+)${TIMES}(?:\\d+(?:\\.\\d+)?)?`), pack: 1 },
+  { name: "*pack", kind: "extract", pattern: new RegExp(`(?:[*×]|(?<![a-z])x)\\s*(\\d+)`), pack: 1 },
+
+  // אחוז שומן: "3% שומן" תמיד, "5%" רק במוצרי חלב; "26% פחות סוכר" הוא לא שומן
+  { name: "fat", kind: "extract", pattern: new RegExp(`${NUM}\\s*%\\s*(?:שומן|שו?מ?(?=\\s*$))`), fat: 1 },
+  { name: "fat:dairy", kind: "extract", pattern: new RegExp(`${NUM}\\s*%(?!\\s*פחות)`), when: FAT_CONTEXT, fat: 1 },
+
+  ...Object.entries(BRANDS).map(([brand, aliases]): NameRule => ({
+    name: `brand:${brand}`,
+    kind: "brand",
+    pattern: word(aliases.join("|")),
+    brand,
+  })),
+
+  // פיסוק: גרשיים / גרש נמחקים (קוטג' = קוטג), נקודה שלא בתוך מספר ושאר הסימנים הופכים לרווח
+  { name: "quotes", kind: "replace", pattern: /["'\u05F4]/g, with: "" },
+  { name: "punctuation", kind: "replace", pattern: /(?<!\d)\.|\.(?!\d)|[^א-תa-z0-9.%\s]/g, with: " " },
+  // אות בודדת בסוף שם שנחתך ("פירורי לחם מוזהבים ס")
+  { name: "cut letter", kind: "replace", pattern: /(?<=\s)[א-תa-z](?=\s*$)/g, with: " " },
+  // מספר בסוף שם שנחתך לפני / באמצע היחידה ("חטיף דג מלוח 250", "מים סאן פלגרינו 1 לי"); "שלב 1" נשאר
+  {
+    name: "cut size",
+    kind: "replace",
+    pattern: /(?<=\s)(?<!(?:שלב|מס|מספר)\s+)\d+(?:\.\d+)?(?:\s+[א-ת]{1,2})?(?=\s*$)/g,
+    with: " ",
+  },
+];
+
+// מילה -> צורה קנונית (אחרי נרמול אותיות סופיות): סמיכות ורבים / יחיד שלא משנים את המוצר
+export const SYNONYMS: Record<string, string> = {
+  גבינת: "גבינה",
+  משחת: "משחה",
+  עוגת: "עוגה",
+  אבקת: "אבקה",
+  חטיפי: "חטיף",
+  דגני: "דגנים",
+  לאבנה: "לבנה",
+  יגורט: "יוגורט",
+  ונילה: "וניל",
+  אורגנית: "אורגני",
+  טבעית: "טבעי",
+  קלאסית: "קלאסי",
+  zero: "זירו",
+};
+
+// מילים שלא מבדילות בין מוצרים
+export const STOPWORDS = ["מארז", "מבצע", "בטעם", "טעם", "בניחוח", "של", "עם", "חדש", "חדשה", "יח"];
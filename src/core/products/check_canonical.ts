@@ -0,0 +1,76 @@
+import fs from "node:fs";
+import path from "node:path";
+import { canonicalizeName, type CanonicalName, type RuleStep } from "./canonical";
+
+/**
+ * בודק את canonicalizeName מול canonical_golden.json:
+ *   cases     - שמות אמיתיים מקבצי המחירים, עם המפתח והשדות הצפויים
+ *   same      - כתיבים של אותו מוצר שחייבים לקבל אותו canonical_key
+ *   different - מוצרים שונים שחייבים לקבל מפתחות שונים
+ *
+ * npx tsx src/core/products/check_canonical.ts                     # כל הקורפוס; exit 1 כשיש הבדל
+ * npx tsx src/core/products/check_canonical.ts "קוטג' 5% 250 גרם"  # מציג אילו כללים הופעלו על שם
+ */
+
+type GoldenFile = {
+  cases: ({ name: string } & CanonicalName)[];
+  same: string[][];
+  different: string[][];
+};
+
+const GOLDEN_PATH = path.join(__dirname, "canonical_golden.json");
+
+const FIELDS: (keyof CanonicalName)[] = ["canonical_key", "brand", "size_qty", "size_unit", "pack_count", "fat_pct"];
+
+function explain(name: string) {
+  const trace: RuleStep[] = [];
+  const result = canonicalizeName(name, trace);
+  console.log(name);
+  for (const step of trace) console.log(`  ${step.rule.padEnd(20)} ${step.text}`);
+  console.log(result);
+}
+
+function check(golden: GoldenFile): string[] {
+  const failures: string[] = [];
+
+  for (const c of golden.cases) {
+    const got = canonicalizeName(c.name);
+    for (const f of FIELDS) {
+      if (got[f] === c[f]) continue;
+      failures.push(`${c.name}: ${f} = ${JSON.stringify(got[f])}, expected ${JSON.stringify(c[f])}`);
+    }
+  }
+
+  for (const group of golden.same) {
+    const keys = new Set(group.map((n) => canonicalizeName(n).canonical_key));
+    if (keys.size > 1) failures.push(`same: ${group.join(" | ")} -> ${[...keys].join(" | ")}`);
+  }
+
+  for (const group of golden.different) {
+    const keys = group.map((n) => canonicalizeName(n).canonical_key);
+    if (new Set(keys).size < keys.length) failures.push(`different: ${group.join(" | ")} -> ${keys.join(" | ")}`);
+  }
+
+  return failures;
+}
+
+function main() {
+  const names = process.argv.slice(2);
+  if (names.length) {
+    for (const n of names) explain(n);
+    return;
+  }
+
+  const golden: GoldenFile = JSON.parse(fs.readFileSync(GOLDEN_PATH, "utf8"));
+  const failures = check(golden);
+  for (const f of failures) console.log(`[FAIL] ${f}`);
+
+  const total = golden.cases.length + golden.same.length + golden.different.length;
+  if (failures.length) {
+    console.log(`${failures.length} mismatches`);
+    process.exit(1);
+  }
+  console.log(`${total} checks ok`);
+}
+
+main();
@@ -0,0 +1,58 @@
+/**
+ * זיהוי ברקודים (GTIN / EAN) ב-ItemCode של הרשתות.
+ * אותו מוצר מופיע אצל רשתות שונות כ-"7290100700020", "07290100700020" או "0007290100700020",
+ * וחלק מה-ItemCode הם בכלל קודים פנימיים של הרשת (מוצרים שקילים, מאפייה, קודים קצרים).
+ *
+ * צורה נורמלית: 13 ספרות (EAN-13; UPC-A ו-EAN-8 עם אפסים מובילים), או 14 כשיש ספרת אריזה (GTIN-14).
+ * ספרת הביקורת לא מושפעת מאפסים מובילים, אז בודקים אותה על הקוד אחרי ריפוד ל-14.
+ */
+
+export type GtinFormat = "EAN-8" | "UPC-A" | "EAN-13" | "GTIN-14";
+
+// gtin = ברקוד אמיתי; internal = קוד פנימי של הרשת; invalid = נראה כמו ברקוד אבל ספרת הביקורת שגויה
+export type ItemCodeKind = "gtin" | "internal" | "invalid";
+
+export type ItemCodeInfo =
+  { kind: "gtin"; gtin: string; format: GtinFormat } | { kind: "internal" | "invalid"; gtin: null; format: null };
+
+// פחות מזה (אחרי הורדת אפסים) זה קוד פנימי / PLU, גם אם ספרת הביקורת במקרה מסתדרת
+const MIN_GTIN_DIGITS = 8;
+
+// Restricted Circulation Numbers של GS1: קודים שהרשת מקצה בעצמה (שקילים, מחיר מוטבע, קופונים)
+const RESTRICTED_EAN13 = /^(02|04|05|2\d)/;
+const RESTRICTED_EAN8 = /^[02]/;
+
+// ספרת ביקורת GS1 (mod 10, משקלות 3/1 מימין) על 14 ספרות כולל הביקורת
+export function isValidCheckDigit(gtin14: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) sum += Number(gtin14[i]) * (i % 2 === 0 ? 3 : 1);
+  return sum % 10 === 0;
+}
+
+function formatOf(significant: number): GtinFormat {
+  if (significant <= 8) return "EAN-8";
+  if (significant <= 12) return "UPC-A";
+  return significant === 13 ? "EAN-13" : "GTIN-14";
+}
+
+const INTERNAL: ItemCodeInfo = { kind: "internal", gtin: null, format: null };
+const INVALID: ItemCodeInfo = { kind: "invalid", gtin: null, format: null };
+
+export function classifyItemCode(itemCode: string | null | undefined): ItemCodeInfo {
+  const code = String(itemCode ?? "").trim();
+  if (!/^\d+$/.test(code)) return INTERNAL;
+
+  const significant = code.replace(/^0+/, "");
+  if (significant.length < MIN_GTIN_DIGITS || significant.length > 14) return INTERNAL;
+
+  const gtin14 = significant.padStart(14, "0");
+  if (!isValidCheckDigit(gtin14)) return INVALID;
+
+  const format = formatOf(significant.length);
+  // EAN-8 נבדק על 8 הספרות המקוריות (עם האפס המוביל, אם היה)
+  if (format === "EAN-8" ? RESTRICTED_EAN8.test(code.slice(-8)) : RESTRICTED_EAN13.test(gtin14.slice(1))) {
+    return INTERNAL;
+  }
+
+  return { kind: "gtin", gtin: gtin14.startsWith("0") ? gtin14.slice(1) : gtin14, format };
+}
@@ -0,0 +1,171 @@
+import type { Repos } from "../db/repos";
+import type { PriceRow } from "../parse/price_full_parser";
+import { keyTokens, nameSimilarity, tokenWeights, type MatchProfile } from "./similarity";
+
+/**
+ * התאמות ידניות בין פריט של רשת (chain, item_code) למוצר (products.id), שגוברות על ההתאמה האוטומטית:
+ *   link   - הפריט הוא המוצר, גם כשה-ItemCode שלו קוד פנימי (ירקות, מאפייה) או ברקוד שגוי
+ *   unlink - הפריט הוא לא המוצר, גם אם הברקוד או ה-canonical_key אומרים שכן
+ *
+ * ההחלטה נכתבת ל-product_matches ומוחלת מיד על product_id ב-prices / current_prices; קבצים שמפורקים
+ * אחר כך מקבלים אותה ב-applyMatchOverrides. האגרגציה מקבצת לפי price_match_keys (ראה 0011_product_matches).
+ *
+ * מועמדים: פריט בלי מוצר מול פריטים עם מוצר ברשתות אחרות, לפי דמיון שמות (similarity.ts). הם מחושבים
+ * ב-smartcart matches score ונשמרים ב-product_match_candidates; מעל DEFAULT_REVIEW_BELOW הם מוצגים
+ * בהשוואת מחירים כהתאמה סבירה, ומתחת לו הם מחכים ל-smartcart matches review.
+ */
+
+export type MatchDecision = "link" | "unlink";
+
+export type ProductMatchRow = {
+  chain: string;
+  item_code: string;
+  product_id: string;
+  decision: MatchDecision;
+  note: string | null;
+  decided_at: string;
+};
+
+// product_match_candidates: עד top מוצרים לכל פריט בלי מוצר, rank 1 הסביר ביותר
+export type MatchCandidateRow = {
+  chain: string;
+  item_code: string;
+  product_id: string;
+  rank: number;
+  confidence: number;
+  detail: string;
+  item_name: string;
+  product_name: string; // השם של הפריט המקושר הדומה ביותר
+  computed_at: string;
+};
+
+// item_code -> ההחלטות עליו, לרשת אחת
+export type MatchOverrides = Map<string, { link: string | null; unlinked: Set<string> }>;
+
+export const DEFAULT_REVIEW_BELOW = 0.9;
+export const DEFAULT_MIN_CONFIDENCE = 0.5;
+export const DEFAULT_TOP = 3;
+
+// מילה שמופיעה ביותר מחלק כזה של הפריטים לא משמשת לבחירת מועמדים ("חלב", "גבינה")
+const MAX_BLOCK_SHARE = 0.05;
+
+// פריטים עם מוצר לפי 3 האותיות הראשונות של כל מילה: כך גם "מוזה" מגיע ל"מוזהבים"
+function blockKey(token: string): string {
+  return token.slice(0, 3);
+}
+
+/**
+ * המועמדים לכל פריט ב-items מתוך linked (פריטים עם product_id ברשתות אחרות), מדורגים.
+ * כמה פריטים של אותו מוצר (ברשתות שונות) נספרים כמועמד אחד, עם הציון הגבוה שלהם.
+ */
+export function rankCandidates(
+  items: MatchProfile[],
+  linked: MatchProfile[],
+  opts: { min: number; top: number; decided?: Set<string>; now?: string }
+): MatchCandidateRow[] {
+  const weights = tokenWeights([...items, ...linked]);
+  const blocks = new Map<string, MatchProfile[]>();
+  for (const p of linked) {
+    for (const key of new Set(keyTokens(p.canonical_key).map(blockKey))) {
+      const block = blocks.get(key) ?? [];
+      block.push(p);
+      blocks.set(key, block);
+    }
+  }
+  const maxBlock = Math.max(50, Math.floor(linked.length * MAX_BLOCK_SHARE));
+  const computedAt = opts.now ?? new Date().toISOString();
+  const out: MatchCandidateRow[] = [];
+
+  for (const item of items) {
+    const itemBlocks = [...new Set(keyTokens(item.canonical_key).map(blockKey))]
+      .map((k) => blocks.get(k) ?? [])
+      .filter((b) => b.length)
+      .sort((a, b) => a.length - b.length);
+    // כשכל המילים נפוצות, לפחות הקבוצה הקטנה ביותר
+    const pool = new Set(itemBlocks.filter((b, i) => i === 0 || b.length <= maxBlock).flat());
+
+    const best = new Map<string, MatchCandidateRow>();
+    for (const other of pool) {
+      if (other.chain === item.chain || !other.product_id) continue;
+      if (opts.decided?.has(`${item.chain}|${item.item_code}|${other.product_id}`)) continue;
+
+      const sim = nameSimilarity(item, other, weights);
+      if (sim.confidence < opts.min || (best.get(other.product_id)?.confidence ?? -1) >= sim.confidence) continue;
+      best.set(other.product_id, {
+        chain: item.chain,
+        item_code: item.item_code,
+        product_id: other.product_id,
+        rank: 0,
+        confidence: sim.confidence,
+        detail: `${sim.detail} via ${other.chain}`,
+        item_name: item.item_name,
+        product_name: other.item_name,
+        computed_at: computedAt,
+      });
+    }
+
+    const ranked = [...best.values()]
+      .sort((a, b) => b.confidence - a.confidence || a.product_id.localeCompare(b.product_id))
+      .slice(0, opts.top);
+    ranked.forEach((c, i) => out.push({ ...c, rank: i + 1 }));
+  }
+
+  return out;
+}
+
+/**
+ * מחשב מחדש את המועמדים של הפריטים בלי מוצר ברשת, בלי זוגות שכבר הוחלט עליהם.
+ * מחזיר כמה מועמדים נשמרו.
+ */
+export async function refreshMatchCandidates(
+  repos: Repos,
+  q: { chain: string; min: number; top: number }
+): Promise<number> {
+  const items = await repos.prices.listMatchProfiles({ chain: q.chain, linked: false });
+  const linked = await repos.prices.listMatchProfiles({ linked: true });
+
+  const decisions = await repos.matches.list({ chain: q.chain });
+  const decided = new Set(decisions.map((m) => `${m.chain}|${m.item_code}|${m.product_id}`));
+
+  const candidates = rankCandidates(items, linked, { min: q.min, top: q.top, decided });
+  await repos.matches.replaceCandidates(q.chain, candidates);
+  return candidates.length;
+}
+
+/**
+ * רושם החלטה ומחיל אותה על השורות הקיימות. מחזיר כמה שורות current_prices השתנו.
+ */
+export async function decideMatch(
+  repos: Repos,
+  d: Pick<ProductMatchRow, "chain" | "item_code" | "product_id" | "decision" | "note">
+): Promise<number> {
+  await repos.matches.decide({ ...d, decided_at: new Date().toISOString() });
+  return d.decision === "link"
+    ? repos.prices.setItemProduct(d.chain, d.item_code, d.product_id)
+    : repos.prices.setItemProduct(d.chain, d.item_code, null, d.product_id);
+}
+
+export async function loadMatchOverrides(repos: Repos, chain: string): Promise<MatchOverrides> {
+  const out: MatchOverrides = new Map();
+  for (const m of await repos.matches.list({ chain })) {
+    const o = out.get(m.item_code) ?? { link: null, unlinked: new Set<string>() };
+    if (m.decision === "link") o.link = m.product_id;
+    else o.unlinked.add(m.product_id);
+    out.set(m.item_code, o);
+  }
+  return out;
+}
+
+// product_id של שורות חדשות לפי ההחלטות: link גובר, unlink מבטל את ההתאמה לפי ברקוד
+export function applyMatchOverrides<T extends Pick<PriceRow, "item_code" | "product_id">>(
+  rows: T[],
+  overrides: MatchOverrides
+): T[] {
+  if (!overrides.size) return rows;
+  return rows.map((r) => {
+    const o = r.item_code ? overrides.get(r.item_code) : undefined;
+    if (!o) return r;
+    if (o.link) return { ...r, product_id: o.link };
+    return r.product_id && o.unlinked.has(r.product_id) ? { ...r, product_id: null } : r;
+  });
+}
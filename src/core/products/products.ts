@@ -0,0 +1,66 @@
+import type { Repos } from "../db/repos";
+import type { PriceRow } from "../parse/price_full_parser";
+import { classifyItemCode, type GtinFormat, type ItemCodeKind } from "./gtin";
+
+/**
+ * products: טבלת אב של מוצרים לפי ברקוד (GTIN בצורה הנורמלית, gtin.ts).
+ * כל שורת prices / current_prices מקבלת product_id כשה-ItemCode שלה הוא ברקוד תקין, כך שאותו מוצר
+ * מתחבר בין שופרסל ליוחננוף בלי קשר לאיך השם שלו כתוב. קודים פנימיים מסומנים ב-code_kind ונשארים בלי מוצר.
+ */
+
+export type ProductRow = {
+  id: string; // ה-GTIN הנורמלי
+  gtin: string;
+  gtin_format: GtinFormat;
+  name: string; // השם מהשורה הראשונה שראינו
+  canonical_key: string | null;
+};
+
+export type ProductLink = {
+  barcode: string | null; // ה-GTIN הנורמלי, null לקוד פנימי / שגוי
+  product_id: string | null;
+  code_kind: ItemCodeKind;
+};
+
+export function productLink(itemCode: string | null): ProductLink {
+  const info = classifyItemCode(itemCode);
+  return { barcode: info.gtin, product_id: info.gtin, code_kind: info.kind };
+}
+
+// המוצרים של באץ' שורות, אחד לכל product_id
+export function productsOf(rows: Pick<PriceRow, "item_code" | "item_name" | "canonical_key">[]): ProductRow[] {
+  const out = new Map<string, ProductRow>();
+  for (const r of rows) {
+    const info = classifyItemCode(r.item_code);
+    if (info.kind !== "gtin" || out.has(info.gtin)) continue;
+    out.set(info.gtin, {
+      id: info.gtin,
+      gtin: info.gtin,
+      gtin_format: info.format,
+      name: r.item_name,
+      canonical_key: r.canonical_key,
+    });
+  }
+  return [...out.values()];
+}
+
+/**
+ * מקשר שורות prices מלפני טבלת products (code_kind ריק): item_code אחד בכל פעם, על כל השורות שלו.
+ * מחזיר כמה item_code קושרו.
+ */
+export async function backfillProductLinks(repos: Repos, batch = 1000): Promise<number> {
+  let linked = 0;
+
+  for (;;) {
+    const rows = await repos.prices.listUnlinked(batch);
+    if (!rows.length) return linked;
+
+    await repos.products.upsert(productsOf(rows));
+
+    const codes = new Set(rows.map((r) => r.item_code).filter((c): c is string => !!c));
+    for (const code of codes) await repos.prices.linkItemCode(code, productLink(code));
+
+    linked += codes.size;
+    console.log(`[PRODUCTS] linked ${linked} item codes`);
+  }
+}
@@ -0,0 +1,115 @@
+import type { BaseUnit } from "../parse/units";
+
+/**
+ * דמיון בין שמות של פריטים ברשתות שונות, כשה-canonical_key לא זהה (שם שנחתך, מילה נוספת, כתיב אחר).
+ * המילים של ה-canonical_key משוקללות לפי כמה הן נדירות בקורפוס (IDF): "חלב" כמעט לא אומר כלום,
+ * "גאודה" אומר הרבה. מילה מתאימה למילה זהה, לתחילת מילה ("מוזהב" / "מוזהבים"), או לכתיב שונה באות אחת.
+ * הציון מוכפל בגורמים של מותג, גודל ואחוז שומן, שנשלפו מהשם (canonical.ts) או מ-Quantity.
+ */
+
+// פריט אחד של רשת כפי שהוא ב-current_prices (view match_profiles)
+export type MatchProfile = {
+  chain: string;
+  item_code: string;
+  product_id: string | null;
+  item_name: string;
+  canonical_key: string;
+  brand: string | null;
+  qty: number | null; // base_qty, או size_qty מהשם כשאין
+  unit: BaseUnit | null;
+  fat_pct: number | null;
+};
+
+export type Similarity = {
+  confidence: number;
+  detail: string; // "tokens=0.83 brand=same size=unknown", להצגה ב-review
+};
+
+type Comparison = "same" | "different" | "unknown";
+
+// הגורמים שהציון של המילים מוכפל בהם
+const BRAND_FACTOR: Record<Comparison, number> = { same: 1, different: 0.4, unknown: 1 };
+const SIZE_FACTOR: Record<Comparison, number> = { same: 1, different: 0.5, unknown: 0.85 };
+const FAT_FACTOR: Record<Comparison, number> = { same: 1, different: 0.3, unknown: 1 };
+
+const SIZE_TOLERANCE = 0.02;
+const MIN_PREFIX = 3;
+const MIN_TYPO_LENGTH = 5;
+
+// מילים של ה-canonical_key בלי אחוז השומן (נבדק בנפרד)
+export function keyTokens(key: string): string[] {
+  return key.split(" ").filter((t) => t && !t.endsWith("%"));
+}
+
+// לכל היותר אות אחת שונה / חסרה / נוספת
+function oneEditApart(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i++;
+  if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1);
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+}
+
+export function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (short.length >= MIN_PREFIX && long.startsWith(short)) return true;
+  return short.length >= MIN_TYPO_LENGTH - 1 && long.length >= MIN_TYPO_LENGTH && oneEditApart(short, long);
+}
+
+/**
+ * משקל IDF לכל מילה, לפי כמה פרופילים מכילים אותה.
+ */
+export function tokenWeights(profiles: Pick<MatchProfile, "canonical_key">[]): Map<string, number> {
+  const df = new Map<string, number>();
+  for (const p of profiles) for (const t of new Set(keyTokens(p.canonical_key))) df.set(t, (df.get(t) ?? 0) + 1);
+
+  const weights = new Map<string, number>();
+  for (const [t, n] of df) weights.set(t, Math.log(1 + profiles.length / n));
+  return weights;
+}
+
+// Dice משוקלל: המשקל של המילים שמצאו התאמה בצד השני, משני הצדדים, מתוך המשקל הכולל
+function tokenSimilarity(a: string[], b: string[], weights: Map<string, number>): number {
+  const weightOf = (t: string) => weights.get(t) ?? Math.log(1 + weights.size);
+  let matched = 0;
+  let total = 0;
+  for (const [side, other] of [
+    [a, b],
+    [b, a],
+  ]) {
+    for (const t of side) {
+      const w = weightOf(t);
+      total += w;
+      if (other.some((o) => tokensMatch(t, o))) matched += w;
+    }
+  }
+  return total ? matched / total : 0;
+}
+
+function compareBrand(a: MatchProfile, b: MatchProfile): Comparison {
+  if (!a.brand || !b.brand) return "unknown";
+  return a.brand === b.brand ? "same" : "different";
+}
+
+function compareSize(a: MatchProfile, b: MatchProfile): Comparison {
+  if (a.qty == null || b.qty == null || !a.unit || !b.unit) return "unknown";
+  if (a.unit !== b.unit) return "different";
+  return Math.abs(a.qty - b.qty) <= SIZE_TOLERANCE * Math.max(a.qty, b.qty) ? "same" : "different";
+}
+
+function compareFat(a: MatchProfile, b: MatchProfile): Comparison {
+  if (a.fat_pct == null || b.fat_pct == null) return "unknown";
+  return a.fat_pct === b.fat_pct ? "same" : "different";
+}
+
+export function nameSimilarity(a: MatchProfile, b: MatchProfile, weights: Map<string, number>): Similarity {
+  const tokens = tokenSimilarity(keyTokens(a.canonical_key), keyTokens(b.canonical_key), weights);
+  const brand = compareBrand(a, b);
+  const size = compareSize(a, b);
+  const fat = compareFat(a, b);
+
+  const confidence = tokens * BRAND_FACTOR[brand] * SIZE_FACTOR[size] * FAT_FACTOR[fat];
+  const detail = `tokens=${tokens.toFixed(2)} brand=${brand} size=${size}${fat === "unknown" ? "" : ` fat=${fat}`}`;
+  return { confidence: Math.round(confidence * 100) / 100, detail };
+}
@@ -0,0 +1,89 @@
+import type { Repos } from "./db/repos";
+import type { FailedStep, RawFilePatch, RawFileRecord } from "./db/types";
+
+/**
+ * מדיניות ניסיונות חוזרים ל-raw_files שנכשלו.
+ * כל כשלון מעלה את attempts וקובע next_retry_at (backoff אקספוננציאלי). אחרי MAX_ATTEMPTS,
+ * או כשהקובץ עצמו שבור (XML לא תקין, gzip קטוע), הוא עובר ל-dead ולא ינוסה שוב אוטומטית.
+ * - collect: ה-collectors מורידים שוב URL שנכשל כשהגיע הזמן שלו
+ * - parse: requeueParseFailures מחזיר אותו ל-downloaded והפירוק הבא לוקח אותו
+ */
+
+export const MAX_ATTEMPTS = 5;
+
+const BASE_DELAY_MINUTES = 15; // 15 דק', 30 דק', שעה, שעתיים...
+const MAX_DELAY_MINUTES = 12 * 60;
+
+// שגיאות של התוכן עצמו: ניסיון נוסף יחזיר את אותה שגיאה
+const PERMANENT_ERRORS = [
+  /^XML parse error/,
+  /^XML missing root/,
+  /^Missing StoreId/,
+  /^No (Items|Stores)/,
+  /^Not a gzip file/,
+  /unexpected end of file/i,
+  /incorrect header check/i,
+];
+
+export function isPermanentFailure(error: string): boolean {
+  return PERMANENT_ERRORS.some((re) => re.test(error));
+}
+
+export function retryDelayMs(attempts: number): number {
+  const minutes = Math.min(MAX_DELAY_MINUTES, BASE_DELAY_MINUTES * 2 ** Math.max(0, attempts - 1));
+  return minutes * 60_000;
+}
+
+// העמודות לכתיבה אחרי כשלון, לפי מספר הכשלונות הקודמים של אותה שורה
+export function failureFields(
+  prevAttempts: number,
+  error: string,
+  step: FailedStep,
+  now: Date = new Date()
+): Required<Pick<RawFilePatch, "status" | "error" | "attempts" | "next_retry_at" | "failed_step">> {
+  const attempts = prevAttempts + 1;
+  const dead = attempts >= MAX_ATTEMPTS || isPermanentFailure(error);
+
+  return {
+    status: dead ? "dead" : "failed",
+    error,
+    attempts,
+    next_retry_at: dead ? null : new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+    failed_step: step,
+  };
+}
+
+// האם collector צריך להוריד שוב URL שכבר יש לו שורה
+export function isDueForRetry(row: RawFileRecord, now: Date = new Date()): boolean {
+  if (row.status !== "failed") return false;
+  return !row.next_retry_at || row.next_retry_at <= now.toISOString();
+}
+
+/**
+ * מחזיר ל-downloaded קבצים שהפירוק שלהם נכשל והגיע זמן הניסיון הבא. attempts נשמר,
+ * כך שכשלון נוסף מתקדם לעבר dead. מחזיר כמה קבצים הוחזרו לתור.
+ */
+export async function requeueParseFailures(repos: Repos, chain: string, limit = 100): Promise<number> {
+  const due = await repos.rawFiles.listRetryable({ chain, step: "parse", now: new Date().toISOString(), limit });
+  for (const f of due) {
+    await repos.rawFiles.update(f.id, { status: "downloaded", next_retry_at: null });
+  }
+  return due.length;
+}
+
+/**
+ * dead -> failed עם attempts=0 ו-next_retry_at=עכשיו (ידני, smartcart retry --dead), למשל אחרי תיקון באג בפירוק.
+ */
+export async function reviveDeadFiles(repos: Repos, chain: string, limit = 100): Promise<number> {
+  const dead = await repos.rawFiles.listByStatus({ chain, status: "dead", limit });
+  const now = new Date().toISOString();
+  for (const f of dead) {
+    await repos.rawFiles.update(f.id, {
+      status: "failed",
+      attempts: 0,
+      next_retry_at: now,
+      failed_step: f.failed_step ?? "parse",
+    });
+  }
+  return dead.length;
+}
@@ -0,0 +1,73 @@
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { RawFileStore } from "./raw_file_store";
+
+/**
+ * RawFileStore על הדיסק: storage_path נשמר כמו שהוא מתחת ל-rootDir,
+ * כך ש-data/yohananof/2026-01-14/009/PriceFull....gz הוא גם ה-storage_path yohananof/2026-01-14/009/...
+ */
+export function createLocalFileStore(rootDir: string): RawFileStore {
+  const root = path.resolve(rootDir);
+
+  const resolve = (p: string) => {
+    const full = path.resolve(root, p);
+    if (full !== root && !full.startsWith(root + path.sep)) {
+      throw new Error(`Path escapes local store root: ${p}`);
+    }
+    return full;
+  };
+
+  async function walk(dir: string, out: string[]) {
+    let entries: import("node:fs").Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return;
+      throw e;
+    }
+    for (const e of entries) {
+      const full = path.join(dir, e.name);
+      if (e.isDirectory()) await walk(full, out);
+      else if (e.isFile()) out.push(path.relative(root, full).split(path.sep).join("/"));
+    }
+  }
+
+  async function exists(p: string) {
+    try {
+      return (await fs.stat(resolve(p))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    kind: "local",
+    exists,
+
+    async put(p, body, opts) {
+      const full = resolve(p);
+      if (opts?.upsert === false && (await exists(p))) {
+        throw new Error(`The resource already exists: ${p}`);
+      }
+      await fs.mkdir(path.dirname(full), { recursive: true });
+      await fs.writeFile(full, body);
+    },
+
+    async get(p) {
+      return new Uint8Array(await fs.readFile(resolve(p)));
+    },
+
+    async stream(p) {
+      const full = resolve(p);
+      await fs.access(full); // ENOENT כאן ולא באמצע הקריאה
+      return createReadStream(full);
+    },
+
+    async list(prefix) {
+      const out: string[] = [];
+      await walk(resolve(prefix), out);
+      return out.sort();
+    },
+  };
+}
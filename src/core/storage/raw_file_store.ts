@@ -0,0 +1,31 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createLocalFileStore } from "./local_file_store";
+import { createSupabaseFileStore } from "./supabase_file_store";
+
+/**
+ * איפה שומרים את הקבצים הגולמיים (gz / xml) שהורדו מהרשתות.
+ * path הוא תמיד storage_path כפי שנשמר ב-raw_files: <chain>/<YYYY-MM-DD>/<store>/<filename>
+ */
+export type RawFileStore = {
+  kind: "supabase" | "local";
+  put(path: string, body: Uint8Array, opts?: { contentType?: string; upsert?: boolean }): Promise<void>;
+  get(path: string): Promise<Uint8Array>;
+  stream(path: string): Promise<AsyncIterable<Uint8Array>>; // בלי לטעון את כל הקובץ לזיכרון
+  exists(path: string): Promise<boolean>;
+  list(prefix: string): Promise<string[]>; // רקורסיבי, מחזיר paths מלאים של קבצים
+};
+
+export const DEFAULT_BUCKET = "raw-prices";
+export const DEFAULT_LOCAL_DIR = "data";
+
+/**
+ * RAW_STORE=local  -> קבצים מתחת ל-RAW_STORE_DIR (ברירת מחדל data/), בלי Supabase בכלל
+ * RAW_STORE=supabase (ברירת מחדל) -> Supabase Storage, bucket לפי RAW_BUCKET או raw-prices
+ */
+export function rawFileStoreFromEnv(supabase: SupabaseClient | null, bucket?: string): RawFileStore {
+  if ((process.env.RAW_STORE ?? "supabase") === "local") {
+    return createLocalFileStore(process.env.RAW_STORE_DIR ?? DEFAULT_LOCAL_DIR);
+  }
+  if (!supabase) throw new Error("RAW_STORE=supabase requires a Supabase client");
+  return createSupabaseFileStore(supabase, bucket ?? process.env.RAW_BUCKET ?? DEFAULT_BUCKET);
+}
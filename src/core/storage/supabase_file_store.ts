@@ -0,0 +1,73 @@
+import path from "node:path";
+import { Readable } from "node:stream";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RawFileStore } from "./raw_file_store";
+
+const LIST_PAGE = 1000;
+const SIGNED_URL_TTL_SEC = 60;
+
+/**
+ * RawFileStore מעל Supabase Storage (bucket אחד, raw-prices כברירת מחדל).
+ */
+export function createSupabaseFileStore(supabase: SupabaseClient, bucket: string): RawFileStore {
+  const storage = () => supabase.storage.from(bucket);
+
+  // list של Supabase לא רקורסיבי: תיקייה חוזרת עם id = null
+  async function walk(prefix: string, out: string[]) {
+    for (let offset = 0; ; offset += LIST_PAGE) {
+      const { data, error } = await storage().list(prefix, { limit: LIST_PAGE, offset });
+      if (error) throw error;
+      if (!data?.length) return;
+
+      for (const entry of data) {
+        const full = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.id == null) await walk(full, out);
+        else out.push(full);
+      }
+
+      if (data.length < LIST_PAGE) return;
+    }
+  }
+
+  return {
+    kind: "supabase",
+
+    async put(p, body, opts) {
+      const up = await storage().upload(p, body, {
+        contentType: opts?.contentType ?? "application/gzip",
+        upsert: opts?.upsert ?? false,
+      });
+      if (up.error) throw up.error;
+    },
+
+    async get(p) {
+      const dl = await storage().download(p);
+      if (dl.error) throw dl.error;
+      return new Uint8Array(await dl.data.arrayBuffer());
+    },
+
+    // download() של supabase-js מחזיר Blob שלם, אז קוראים דרך signed URL כדי לקבל את ה-body בזרימה
+    async stream(p) {
+      const { data, error } = await storage().createSignedUrl(p, SIGNED_URL_TTL_SEC);
+      if (error) throw error;
+
+      const res = await fetch(data.signedUrl);
+      if (!res.ok || !res.body) throw new Error(`Storage download failed: ${res.status} ${res.statusText}`);
+      return Readable.fromWeb(res.body as any);
+    },
+
+    async exists(p) {
+      const dir = path.posix.dirname(p);
+      const name = path.posix.basename(p);
+      const { data, error } = await storage().list(dir === "." ? "" : dir, { search: name, limit: 100 });
+      if (error) throw error;
+      return (data ?? []).some((e) => e.name === name && e.id != null);
+    },
+
+    async list(prefix) {
+      const out: string[] = [];
+      await walk(prefix.replace(/\/+$/, ""), out);
+      return out.sort();
+    },
+  };
+}
@@ -0,0 +1,12 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Supabase client מה-env. מחזיר null כשאין URL/KEY (ריצה אופליין עם DB_BACKEND=sqlite + RAW_STORE=local).
+ */
+export function supabaseFromEnv(
+  url = process.env.SUPABASE_URL,
+  serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+): SupabaseClient | null {
+  if (!url || !serviceRoleKey) return null;
+  return createClient(url, serviceRoleKey);
+}
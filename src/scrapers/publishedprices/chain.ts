@@ -0,0 +1,39 @@
+import type { ChainDefinition } from "../../core/chains/types";
+import { runPublishedPricesCollector } from "./collect";
+import { publishedPricesPriceFull, publishedPricesPromo, publishedPricesStores } from "./descriptor";
+
+export type PublishedPricesChainConfig = {
+  slug: string;
+  name: string;
+  chainId: string;
+  username: string; // שם המשתמש של הרשת בפורטל
+  password?: string; // ברוב הרשתות ריקה
+};
+
+/**
+ * רשת שמפרסמת דרך url.publishedprices.co.il (Cerberus): אותו collector ואותם parsers, רק login אחר.
+ */
+export function publishedPricesChain(config: PublishedPricesChainConfig): ChainDefinition {
+  const { slug, name, chainId, username, password } = config;
+
+  return {
+    slug,
+    name,
+    chainId,
+    auth: { kind: "publishedprices", username, password },
+    collect: (opts) =>
+      runPublishedPricesCollector(
+        { slug, chainId, username, password },
+        {
+          supabaseUrl: process.env.SUPABASE_URL!,
+          serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY!,
+          ...opts,
+        }
+      ),
+    parsers: {
+      prices: publishedPricesPriceFull(slug),
+      promo: publishedPricesPromo(slug),
+      stores: publishedPricesStores(slug),
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { createPoliteFetch, type PoliteFetch } from "../../core/collect/scheduler";
+
+/**
+ * session של HTTP בלבד מול url.publishedprices.co.il (ה-web client של Cerberus FTP):
+ * - GET /login בשביל ה-csrftoken, ואז POST /login/user עם שם המשתמש / הסיסמה של הרשת
+ * - ה-cookies (cerberus_sid) נשמרים בזיכרון ונשלחים בכל בקשה
+ * - POST /file/json/dir מחזיר את רשימת הקבצים של החשבון (אותו JSON שטבלת הקבצים בפורטל טוענת)
+ * - GET /file/d/<name> מוריד קובץ
+ * redirects נעשים ידנית, כדי לא לאבד cookies שנקבעו בדרך.
+ * כל בקשה עוברת דרך ה-fetch עם הגבלת הקצב והניסיונות החוזרים מ-core/collect/scheduler.ts.
+ *
+ * הערה: אם שרשרת התעודות של הפורטל לא מאומתת על worker, מוסיפים את ה-intermediate החסר
+ * ב-NODE_EXTRA_CA_CERTS ולא מבטלים את בדיקת ה-TLS.
+ */
+
+export const PUBLISHED_PRICES_BASE = "https://url.publishedprices.co.il";
+
+const USER_AGENT = "Mozilla/5.0";
+const MAX_REDIRECTS = 10;
+
+// החשבון של רשת אחת בפורטל
+export type PublishedPricesAccount = {
+  slug: string; // raw_files.chain והתחילית של ה-storage path
+  chainId: string; // נאספים רק קבצים בשם <Type><chainId>-...
+  username: string;
+  password?: string; // ברוב הרשתות ריקה
+};
+
+export type CerberusFile = {
+  name: string; // PriceFull7290803800003-016-202601140010.gz
+  time: string | null; // כפי שמופיע ברשימה של הפורטל
+  size: number | null;
+};
+
+export type CerberusPage = {
+  files: CerberusFile[];
+  total: number; // כל הקבצים בתיקייה, לא רק בעמוד הזה
+};
+
+export type CerberusSession = {
+  login: () => Promise<void>;
+  listFiles: (opts: { start: number; length: number }) => Promise<CerberusPage>;
+  fileUrl: (name: string) => string;
+  download: (name: string) => Promise<Buffer>;
+};
+
+function csrfTokenOf(html: string): string | null {
+  const m =
+    html.match(/<meta\s+name=["']csrftoken["']\s+content=["']([^"']+)["']/i) ??
+    html.match(/name=["']csrftoken["']\s+value=["']([^"']+)["']/i);
+  return m?.[1] ?? null;
+}
+
+export function createCerberusSession(
+  account: PublishedPricesAccount,
+  http: PoliteFetch = createPoliteFetch()
+): CerberusSession {
+  const cookies = new Map<string, string>();
+  let csrfToken: string | null = null;
+
+  function storeCookies(res: Response) {
+    for (const header of res.headers.getSetCookie()) {
+      const [pair, ...attrs] = header.split(";");
+      const eq = pair.indexOf("=");
+      if (eq <= 0) continue;
+
+      const name = pair.slice(0, eq).trim();
+      const value = pair.slice(eq + 1).trim();
+      const expired = attrs.some((a) => /^\s*max-age\s*=\s*0\s*$/i.test(a)) || value === "deleted";
+      if (expired || !value) cookies.delete(name);
+      else cookies.set(name, value);
+    }
+  }
+
+  // fetch עם ה-cookies; מחזיר את התשובה האחרונה וה-URL שלה אחרי ה-redirects
+  async function request(url: string, init: RequestInit = {}): Promise<{ res: Response; url: string }> {
+    let current = url;
+    let method = init.method ?? "GET";
+    let body = init.body;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const headers = new Headers(init.headers);
+      headers.set("user-agent", USER_AGENT);
+      if (cookies.size) headers.set("cookie", [...cookies].map(([k, v]) => `${k}=${v}`).join("; "));
+
+      const res = await http(current, { ...init, method, body, headers, redirect: "manual" });
+      storeCookies(res);
+
+      const location = res.headers.get("location");
+      if (res.status < 300 || res.status >= 400 || !location) return { res, url: current };
+
+      await res.body?.cancel();
+      current = new URL(location, current).toString();
+      // 303 (וגם 301/302 אחרי POST, כמו בדפדפנים) הופכים ל-GET בלי body
+      if (res.status === 303 || ((res.status === 301 || res.status === 302) && method === "POST")) {
+        method = "GET";
+        body = undefined;
+      }
+    }
+
+    throw new Error(`Too many redirects for ${url}`);
+  }
+
+  async function login() {
+    cookies.clear();
+
+    const { res: loginPage } = await request(`${PUBLISHED_PRICES_BASE}/login`);
+    if (!loginPage.ok) throw new Error(`Login page HTTP ${loginPage.status}`);
+    const token = csrfTokenOf(await loginPage.text());
+    if (!token) throw new Error("Login page has no csrftoken");
+
+    const form = new URLSearchParams({
+      r: "",
+      username: account.username,
+      password: account.password ?? "",
+      Submit: "Sign in",
+      csrftoken: token,
+    });
+    const { res, url } = await request(`${PUBLISHED_PRICES_BASE}/login/user`, { method: "POST", body: form });
+    const html = await res.text();
+
+    // login שנדחה חוזר ל-/login
+    if (!res.ok || new URL(url).pathname.startsWith("/login")) {
+      throw new Error(`Login failed for "${account.username}" (HTTP ${res.status} at ${new URL(url).pathname})`);
+    }
+
+    // לעמוד הקבצים יש token משלו לקריאות ה-JSON
+    csrfToken = csrfTokenOf(html) ?? token;
+  }
+
+  async function listFiles(opts: { start: number; length: number }): Promise<CerberusPage> {
+    if (!csrfToken) throw new Error("Not logged in");
+
+    const form = new URLSearchParams({
+      sEcho: "1",
+      iColumns: "5",
+      sColumns: ",,,,",
+      iDisplayStart: String(opts.start),
+      iDisplayLength: String(opts.length),
+      mDataProp_0: "fname",
+      mDataProp_1: "type",
+      mDataProp_2: "size",
+      mDataProp_3: "ftime",
+      mDataProp_4: "",
+      sSearch: "",
+      bRegex: "false",
+      iSortingCols: "0",
+      cd: "/",
+      csrftoken: csrfToken,
+    });
+    const { res, url } = await request(`${PUBLISHED_PRICES_BASE}/file/json/dir`, { method: "POST", body: form });
+    if (new URL(url).pathname.startsWith("/login")) throw new Error("File listing redirected to login");
+    if (!res.ok) throw new Error(`File listing HTTP ${res.status}`);
+
+    let json: any;
+    try {
+      json = await res.json();
+    } catch {
+      throw new Error("File listing did not return JSON");
+    }
+
+    const rows: any[] = Array.isArray(json?.aaData) ? json.aaData : [];
+    const files = rows
+      .filter((r) => r?.type !== "folder")
+      .map((r) => ({
+        name: String(r.fname ?? r.name ?? ""),
+        time: r.ftime != null ? String(r.ftime) : null,
+        size: r.size != null && Number.isFinite(Number(r.size)) ? Number(r.size) : null,
+      }))
+      .filter((f) => f.name);
+
+    return { files, total: Number(json?.iTotalDisplayRecords ?? json?.iTotalRecords ?? files.length) };
+  }
+
+  function fileUrl(name: string) {
+    return `${PUBLISHED_PRICES_BASE}/file/d/${encodeURIComponent(name)}`;
+  }
+
+  // התוכן מוחזר כמו שהוא: הקורא בודק שזה באמת gzip / XML ולא עמוד login
+  async function download(name: string): Promise<Buffer> {
+    const { res } = await request(fileUrl(name));
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  return { login, listFiles, fileUrl, download };
+}
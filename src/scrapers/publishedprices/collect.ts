@@ -0,0 +1,258 @@
+import path from "node:path";
+import crypto from "node:crypto";
+import { matchContent, recordKnownContent } from "../../core/collect/dedup";
+import { createPoliteFetch, DEFAULT_SCHEDULER, mapConcurrent } from "../../core/collect/scheduler";
+import { reposFromEnv, type Repos } from "../../core/db/repos";
+import type { RawFileInsert, RawFileRecord } from "../../core/db/types";
+import type { RawFileType } from "../../core/file_types";
+import { isGzip, looksLikeXml } from "../../core/parse/xml_utils";
+import { failureFields, isDueForRetry } from "../../core/retry";
+import { rawFileStoreFromEnv, type RawFileStore } from "../../core/storage/raw_file_store";
+import { supabaseFromEnv } from "../../core/supabase/client";
+import { createCerberusSession, type PublishedPricesAccount } from "./client";
+import { listAllFileNames, selectFiles, type CerberusFileName } from "./discover";
+
+export type { PublishedPricesAccount } from "./client";
+
+/**
+ * collector של publishedprices.co.il (Cerberus), משותף לכל הרשתות בפורטל
+ * (יוחננוף, רמי לוי, אושר עד, טיב טעם, קשת, ...). כל רשת היא רק login אחר:
+ * - login ב-HTTP בלבד (client.ts) ומעבר על כל רשימת הקבצים (JSON) של הפורטל
+ * - בחירת קבצי PriceFull*.gz (ואופציונלית Price / Promo / Stores) לפי סוג, סניף ותאריך (discover.ts)
+ * - הורדה לזיכרון באותו session, כמה במקביל, עם הגבלת קצב וניסיון חוזר ב-429 / 5xx
+ *   (core/collect/scheduler.ts)
+ * - בדיקה שהתוכן באמת GZIP (magic bytes 1F 8B); Stores*.xml יכול להגיע כ-XML רגיל
+ * - קובץ שכבר יש לו שורה ב-raw_files לא מורד שוב (רק מסומן שנראה), ולא נספר ב-maxDownloads
+ * - URL שנכשל מנוסה שוב אחרי next_retry_at, ואחרי MAX_ATTEMPTS עובר ל-dead (core/retry.ts)
+ * - תוכן שה-sha256 שלו כבר נקלט מדולג (core/collect/dedup.ts): לא מועלה ולא מפורק שוב
+ * - רק קבצים תקינים נשמרים ב-RawFileStore (upsert)
+ *   תחת <slug>/YYYY-MM-DD/STORE/<Type>....gz (Supabase Storage, או data/ עם RAW_STORE=local)
+ * - upsert ל-raw_files (id, chain, store_id, file_url, storage_path, sha256, fetched_at, status, error)
+ *
+ * הערה: בלי login ה-URLs של הקבצים מחזירים HTML (login / redirect). זה מזוהה, השורה ב-raw_files
+ * מסומנת failed והקובץ לא מועלה.
+ */
+
+export type CollectorArgs = {
+  supabaseUrl: string;
+  serviceRoleKey: string;
+  bucket: string;
+  maxPages?: number; // עמודים של 500 קבצים ברשימה (ברירת מחדל 50)
+  maxDownloads?: number; // קבצים חדשים בריצה (ברירת מחדל 50)
+  fileTypes?: RawFileType[]; // ברירת מחדל: PriceFull בלבד
+  storeIds?: string[]; // ברירת מחדל: כל הסניפים
+  since?: string; // yyyymmddHHMM, ברירת מחדל: כל מה שעוד מופיע ברשימה
+  concurrency?: number; // כמה קבצים במקביל (ברירת מחדל 4)
+  ratePerHost?: number; // בקשות לשנייה לפורטל (ברירת מחדל 2)
+  store?: RawFileStore; // ברירת מחדל: לפי RAW_STORE (Supabase Storage או data/)
+  repos?: Repos; // ברירת מחדל: לפי DB_BACKEND (Supabase או SQLite)
+};
+
+type CollectOut = { downloaded: number };
+
+// prev = השורה הקיימת כשזה ניסיון חוזר של URL שנכשל
+type QueuedFile = { file: CerberusFileName; prev: RawFileRecord | null };
+
+function headText(buf: Buffer, n = 300) {
+  return buf.toString("utf8", 0, Math.min(n, buf.length));
+}
+
+async function upsertRawFile(repos: Repos, row: RawFileInsert & { fetched_at: string }) {
+  try {
+    await repos.rawFiles.upsertByUrl(row);
+  } catch (e: any) {
+    console.log("[WARN] raw_files upsert failed:", String(e?.message ?? e));
+  }
+}
+
+// "seen" / "duplicate" כשה-sha256 כבר נקלט, null לתוכן חדש
+async function knownContent(repos: Repos, row: RawFileInsert & { fetched_at: string }): Promise<string | null> {
+  try {
+    const match = await matchContent(repos, row.chain, row.file_url, row.sha256!);
+    return (await recordKnownContent(repos, match, row)) ? match.kind : null;
+  } catch (e: any) {
+    console.log("[WARN] dedup check failed, uploading anyway:", String(e?.message ?? e));
+    return null;
+  }
+}
+
+export async function runPublishedPricesCollector(
+  account: PublishedPricesAccount,
+  args: CollectorArgs
+): Promise<CollectOut> {
+  const supabase = supabaseFromEnv(args.supabaseUrl, args.serviceRoleKey);
+  const store = args.store ?? rawFileStoreFromEnv(supabase, args.bucket);
+  const repos = args.repos ?? reposFromEnv(supabase);
+
+  try {
+    return await collect(account, args, store, repos);
+  } finally {
+    if (!args.repos) await repos.close();
+  }
+}
+
+async function collect(
+  account: PublishedPricesAccount,
+  args: CollectorArgs,
+  store: RawFileStore,
+  repos: Repos
+): Promise<CollectOut> {
+  const chain = account.slug;
+
+  // login ומציאת הקבצים (ברירת מחדל PriceFull)
+  const fileTypes = args.fileTypes ?? ["PriceFull"];
+  const concurrency = args.concurrency ?? DEFAULT_SCHEDULER.concurrency;
+  const http = createPoliteFetch({ ratePerHost: args.ratePerHost });
+  const session = createCerberusSession(account, http);
+  await session.login();
+  console.log(`[AUTH] Logged in as ${account.username}`);
+
+  const listed = await listAllFileNames(session, args.maxPages ?? 50);
+  const discovered = selectFiles(listed, account.chainId, {
+    fileTypes,
+    storeIds: args.storeIds,
+    since: args.since,
+  });
+  console.log(`[DISCOVER] Listed ${listed.length} files, selected ${fileTypes.join("/")}: ${discovered.length}`);
+
+  const maxDownloads = args.maxDownloads ?? 50;
+
+  // דדופ לפי URL (שם הקובץ כולל את זמן הפרסום): קובץ שכבר נקלט רק מסומן שנראה ולא מורד.
+  // כשלונות קודמים מחכים ל-next_retry_at, ו-dead לא מנוסה שוב אוטומטית
+  let queue: QueuedFile[] = [];
+  for (const file of discovered) {
+    const prev = await repos.rawFiles.findByUrl(chain, session.fileUrl(file.filename));
+    if (!prev || isDueForRetry(prev)) queue.push({ file, prev });
+    else if (prev.status === "failed" || prev.status === "dead") {
+      console.log(`[WAIT] ${file.filename} ${prev.status}, next retry ${prev.next_retry_at ?? "never"}`);
+    } else await repos.rawFiles.markSeen(prev.id, new Date().toISOString());
+  }
+  console.log(`[DISCOVER] ${queue.length} not collected yet`);
+
+  // כל קובץ עומד בפני עצמו: הורדה, בדיקה, dedup, העלאה ורישום; true אם נקלט קובץ חדש
+  const collectOne = async ({ file, prev }: QueuedFile): Promise<boolean> => {
+    const { filename, fileType, storeId, date } = file;
+    const url = session.fileUrl(filename);
+    const fetchedAt = new Date().toISOString();
+
+    let fileBuf: Buffer;
+    try {
+      fileBuf = await session.download(filename);
+    } catch (e: any) {
+      const msg = `Download failed: ${String(e?.message ?? e)}`;
+      console.log(`[WARN] ${filename}: ${msg}`);
+
+      await upsertRawFile(repos, {
+        chain,
+        store_id: storeId,
+        file_url: url,
+        storage_path: null,
+        sha256: null,
+        fetched_at: fetchedAt,
+        ...failureFields(prev?.attempts ?? 0, msg, "collect"),
+      });
+
+      return false;
+    }
+
+    console.log(`[DL] ${filename} bytes=${fileBuf.length}`);
+
+    const storagePath = path.posix.join(chain, date, storeId, filename);
+
+    // Stores יכול להגיע כ-XML רגיל; כל השאר חייב להיות gzip
+    const plainStoresXml = fileType === "Stores" && looksLikeXml(fileBuf);
+
+    // לא gzip: מסמנים failed ולא מעלים
+    if (!isGzip(fileBuf) && !plainStoresXml) {
+      const head = headText(fileBuf, 300);
+      console.log("[BAD] Download is NOT gzip (likely login/redirect HTML). First 300 chars:\n", head);
+      const error = "Download returned non-gzip content (likely HTML login/redirect)";
+
+      await upsertRawFile(repos, {
+        chain,
+        store_id: storeId,
+        file_url: url,
+        storage_path: storagePath, // לדיבאג; לא חובה בסכמה
+        sha256: null,
+        fetched_at: fetchedAt,
+        ...failureFields(prev?.attempts ?? 0, error, "collect"),
+      });
+
+      // לא נספר כהורדה מוצלחת
+      return false;
+    }
+
+    const sha = crypto.createHash("sha256").update(fileBuf).digest("hex");
+
+    // אותו תוכן כמו קובץ שכבר יש: רושמים שנראה, בלי העלאה ובלי פירוק
+    const known = await knownContent(repos, {
+      chain,
+      store_id: storeId,
+      file_url: url,
+      storage_path: storagePath,
+      sha256: sha,
+      fetched_at: fetchedAt,
+      status: "downloaded",
+      error: null,
+    });
+    if (known) {
+      console.log(`[SAME] ${filename} ${known} sha=${sha.slice(0, 10)}...`);
+      return false;
+    }
+
+    // העלאה ל-store (upsert)
+    let uploadError: string | null = null;
+    try {
+      await store.put(storagePath, fileBuf, {
+        upsert: true,
+        contentType: plainStoresXml ? "application/xml" : "application/gzip",
+      });
+    } catch (e: any) {
+      uploadError = String(e?.message ?? e);
+    }
+
+    if (uploadError) {
+      console.log(`[WARN] Storage upload failed for ${filename}: ${uploadError}`);
+
+      await upsertRawFile(repos, {
+        chain,
+        store_id: storeId,
+        file_url: url,
+        storage_path: storagePath,
+        sha256: sha,
+        fetched_at: fetchedAt,
+        ...failureFields(prev?.attempts ?? 0, `Storage upload failed: ${uploadError}`, "collect"),
+      });
+
+      return false;
+    }
+
+    console.log(`[OK] ${filename} store=${storeId} sha=${sha.slice(0, 10)}...`);
+
+    await upsertRawFile(repos, {
+      chain,
+      store_id: storeId,
+      file_url: url,
+      storage_path: storagePath,
+      sha256: sha,
+      fetched_at: fetchedAt,
+      status: "downloaded",
+      error: null,
+      next_retry_at: null,
+      failed_step: null,
+    });
+
+    return true;
+  };
+
+  // כמה קבצים במקביל; כל סבב לוקח רק כמה שנשאר עד maxDownloads
+  let downloaded = 0;
+  while (queue.length && downloaded < maxDownloads) {
+    const batch = queue.slice(0, maxDownloads - downloaded);
+    queue = queue.slice(batch.length);
+    const results = await mapConcurrent(batch, concurrency, collectOne);
+    downloaded += results.filter(Boolean).length;
+  }
+
+  return { downloaded };
+}
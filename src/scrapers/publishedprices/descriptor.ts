@@ -0,0 +1,32 @@
+import type { ChainDescriptor } from "../../core/parse/price_full_parser";
+import type { PromoDescriptor } from "../../core/parse/promo_parser";
+import type { StoresDescriptor } from "../../core/parse/stores_parser";
+
+/**
+ * כל הרשתות ב-publishedprices משתמשות באותן תבניות של שמות קבצים, אז ה-descriptors זהים חוץ מה-slug.
+ */
+
+// PriceFull<chainId>-<store>-<yyyymmddHHMM>.gz / Price<chainId>-<store>-<yyyymmddHHMM>.gz
+export function publishedPricesPriceFull(chain: string): ChainDescriptor {
+  return {
+    chain,
+    filenamePattern: /Price(?:Full)?\d+-(\d+)-(\d{12})\.gz/i,
+    fields: {
+      // יוחננוף (ועוד כמה) שולחים PriceUpdateDate במקום PriceUpdateTime
+      priceUpdateTime: ["PriceUpdateDate", "PriceUpdateTime"],
+    },
+  };
+}
+
+// Promo<chainId>-<store>-<yyyymmddHHMM>.gz / PromoFull...
+export function publishedPricesPromo(chain: string): PromoDescriptor {
+  return {
+    chain,
+    filenamePattern: /Promo(?:Full)?\d+-(\d+)-(\d{12})\.gz/i,
+  };
+}
+
+// Stores<chain>-000-<timestamp> (קובץ אחד לכל הרשת)
+export function publishedPricesStores(chain: string): StoresDescriptor {
+  return { chain };
+}
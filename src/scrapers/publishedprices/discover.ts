@@ -0,0 +1,85 @@
+import { fileTypeOf, type RawFileType } from "../../core/file_types";
+import { normalizeStoreId } from "../../core/parse/xml_utils";
+import type { CerberusSession } from "./client";
+
+/**
+ * מציאת קבצים ב-publishedprices: עוברים על כל רשימת ה-JSON עמוד אחרי עמוד, ומשאירים רק את הקבצים
+ * שההרצה ביקשה. הבחירה היא לפי שם הקובץ בלבד (<Type><chainId>-<store>-<yyyymmddHHMM>.gz),
+ * כך שהיא דטרמיניסטית ולא תלויה בסדר שבו הפורטל מציג את הקבצים.
+ */
+
+// שורות בכל בקשה של הרשימה
+const PAGE_SIZE = 500;
+
+export type CerberusFileName = {
+  filename: string;
+  fileType: RawFileType;
+  chainId: string;
+  storeId: string; // כמו בשם הקובץ ("016")
+  stamp: string; // yyyymmddHHMM, שעון ישראל כמו בכל מקום אחר בקבצים האלה
+  date: string; // YYYY-MM-DD
+};
+
+export type DiscoverFilter = {
+  fileTypes: RawFileType[];
+  storeIds?: string[]; // בכל צורה ("16" / "016" / "0016"); ריק / חסר = כל הסניפים
+  since?: string; // yyyymmddHHMM; קבצים עם חותמת מוקדמת יותר מדולגים
+};
+
+export function parseCerberusFilename(filename: string): CerberusFileName | null {
+  // <Type><chainId>-<store>-<yyyymmddHHMM>.gz (ב-Stores: store=000, לפעמים .xml)
+  const m = filename.match(/^(?:PriceFull|Price|PromoFull|Promo|Stores)(\d+)-(\d+)-(\d{12})\.(?:gz|xml)$/i);
+  const fileType = fileTypeOf(filename);
+  if (!m || !fileType) return null;
+
+  const stamp = m[3];
+  const date = `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}`;
+  return { filename, fileType, chainId: m[1], storeId: m[2], stamp, date };
+}
+
+/**
+ * כל שמות הקבצים בתיקייה של החשבון, עד maxPages עמודים של הרשימה.
+ * נעצר קודם כשמגיעים ל-total של הפורטל או כשעמוד חוזר ריק.
+ */
+export async function listAllFileNames(session: CerberusSession, maxPages: number): Promise<string[]> {
+  const names: string[] = [];
+  let total = 0;
+
+  for (let page = 0; page < maxPages; page++) {
+    const res = await session.listFiles({ start: page * PAGE_SIZE, length: PAGE_SIZE });
+    total = res.total;
+    names.push(...res.files.map((f) => f.name));
+
+    if (!res.files.length || (page + 1) * PAGE_SIZE >= total) return names;
+  }
+
+  if (names.length < total) {
+    console.log(`[WARN] Listing truncated at ${maxPages} pages: ${names.length}/${total} files (raise --max-pages)`);
+  }
+  return names;
+}
+
+/**
+ * מסנן את הרשימה לרשת אחת, החדשים קודם.
+ * PriceFull הוא snapshot מלא, אז נשאר רק האחרון לכל סניף בכל יום;
+ * Price / Promo הם עדכונים (delta) וכולם נשארים.
+ */
+export function selectFiles(names: string[], chainId: string, filter: DiscoverFilter): CerberusFileName[] {
+  const stores = filter.storeIds?.length ? new Set(filter.storeIds.map(normalizeStoreId)) : null;
+
+  const picked = new Map<string, CerberusFileName>();
+  for (const name of names) {
+    const f = parseCerberusFilename(name);
+    // login שהגיע לתיקייה של חשבון אחר לא יישמר תחת הרשת הזו
+    if (!f || f.chainId !== chainId) continue;
+    if (!filter.fileTypes.includes(f.fileType)) continue;
+    if (stores && f.fileType !== "Stores" && !stores.has(normalizeStoreId(f.storeId))) continue;
+    if (filter.since && f.stamp < filter.since) continue;
+
+    const key = f.fileType === "PriceFull" ? `PriceFull|${normalizeStoreId(f.storeId)}|${f.date}` : f.filename;
+    const prev = picked.get(key);
+    if (!prev || prev.stamp < f.stamp) picked.set(key, f);
+  }
+
+  return [...picked.values()].sort((a, b) => b.stamp.localeCompare(a.stamp) || a.filename.localeCompare(b.filename));
+}
@@ -0,0 +1,24 @@
+import type { ChainDefinition } from "../core/chains/types";
+import { publishedPricesChain } from "./publishedprices/chain";
+import { SHUFERSAL } from "./shufersal/chain";
+
+/**
+ * כל הרשתות שה-pipeline מכיר. רשת חדשה נכנסת כאן ובשום מקום אחר.
+ * רשת שמפרסמת ב-publishedprices.co.il היא רק publishedPricesChain עם שם המשתמש שלה.
+ */
+export const CHAINS: ChainDefinition[] = [
+  SHUFERSAL,
+  publishedPricesChain({ slug: "yohananof", name: "יוחננוף", chainId: "7290803800003", username: "yohananof" }),
+  publishedPricesChain({ slug: "ramilevy", name: "רמי לוי", chainId: "7290058140886", username: "RamiLevi" }),
+  publishedPricesChain({ slug: "osherad", name: "אושר עד", chainId: "7290103152017", username: "osherad" }),
+  publishedPricesChain({ slug: "tivtaam", name: "טיב טעם", chainId: "7290873255550", username: "TivTaam" }),
+  publishedPricesChain({ slug: "keshet", name: "קשת טעמים", chainId: "7290785400000", username: "Keshet" }),
+];
+
+export function chainSlugs(): string[] {
+  return CHAINS.map((c) => c.slug);
+}
+
+export function getChain(slug: string): ChainDefinition | null {
+  return CHAINS.find((c) => c.slug === slug) ?? null;
+}
@@ -0,0 +1,21 @@
+import type { ChainDefinition } from "../../core/chains/types";
+import { runShufersalCollector } from "./collect/shufersal";
+import { SHUFERSAL_PRICE_FULL, SHUFERSAL_PROMO, SHUFERSAL_STORES } from "./parse/descriptor";
+
+export const SHUFERSAL: ChainDefinition = {
+  slug: "shufersal",
+  name: "שופרסל",
+  chainId: "7290027600007",
+  auth: { kind: "none" },
+  collect: (opts) =>
+    runShufersalCollector({
+      supabaseUrl: process.env.SUPABASE_URL!,
+      serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      ...opts,
+    }),
+  parsers: {
+    prices: SHUFERSAL_PRICE_FULL,
+    promo: SHUFERSAL_PROMO,
+    stores: SHUFERSAL_STORES,
+  },
+};
@@ -1,6 +1,14 @@
 import crypto from "node:crypto";
 import * as cheerio from "cheerio";
-import { createClient } from "@supabase/supabase-js";
+import { matchContent, recordKnownContent } from "../../../core/collect/dedup";
+import { createPoliteFetch, DEFAULT_SCHEDULER, mapConcurrent, type PoliteFetch } from "../../../core/collect/scheduler";
+import { reposFromEnv, type Repos } from "../../../core/db/repos";
+import type { RawFileInsert, RawFileRecord } from "../../../core/db/types";
+import { fileTypeOf, isFileType, type RawFileType } from "../../../core/file_types";
+import { isGzip } from "../../../core/parse/xml_utils";
+import { failureFields, isDueForRetry } from "../../../core/retry";
+import { rawFileStoreFromEnv, type RawFileStore } from "../../../core/storage/raw_file_store";
+import { supabaseFromEnv } from "../../../core/supabase/client";
 
 const CHAIN = "shufersal";
 const BASE = "https://prices.shufersal.co.il";
@@ -11,26 +19,18 @@ function sha256(buf: Buffer) {
 }
 
 /**
- * שופרסל מגיעים בכמה פורמטים של Price:
+ * שופרסל מגיעים בכמה פורמטים של Price/Promo (עם או בלי Full):
  * 1) Price<chain>-<sub>-<store>-YYYYMMDD-HHMMSS.gz  (ארוך)
  * 2) Price<chain>-<store>-YYYYMMDDHHMM.gz            (קצר)
  * אנחנו רוצים להחזיר storeId בכל אחד מהם.
  */
 function extractStoreIdFromFilename(nameOrUrl: string): string | null {
-  // Price ארוך: Price<chain>-<sub>-<store>-YYYYMMDD-HHMMSS.gz
-  let m = nameOrUrl.match(/Price\d+-\d+-([0-9]{1,4})-\d{8}-\d{6}\.gz/i);
+  // ארוך: <Type><chain>-<sub>-<store>-YYYYMMDD-HHMMSS.gz
+  let m = nameOrUrl.match(/(?:Price|Promo)(?:Full)?\d+-\d+-([0-9]{1,4})-\d{8}-\d{6}\.gz/i);
   if (m) return m[1].padStart(3, "0");
 
-  // Price קצר: Price<chain>-<store>-YYYYMMDDHHMM.gz
-  m = nameOrUrl.match(/Price\d+-([0-9]{1,4})-\d{12}\.gz/i);
-  if (m) return m[1].padStart(3, "0");
-
-  // PriceFull ארוך: PriceFull<chain>-<sub>-<store>-YYYYMMDD-HHMMSS.gz
-  m = nameOrUrl.match(/PriceFull\d+-\d+-([0-9]{1,4})-\d{8}-\d{6}\.gz/i);
-  if (m) return m[1].padStart(3, "0");
-
-  // PriceFull קצר/אחר: PriceFull<chain>-<store>-YYYYMMDDHHMM.gz
-  m = nameOrUrl.match(/PriceFull\d+-([0-9]{1,4})-\d{12}\.gz/i);
+  // קצר: <Type><chain>-<store>-YYYYMMDDHHMM.gz
+  m = nameOrUrl.match(/(?:Price|Promo)(?:Full)?\d+-([0-9]{1,4})-\d{12}\.gz/i);
   if (m) return m[1].padStart(3, "0");
 
   return null;
@@ -39,7 +39,7 @@ function extractStoreIdFromFilename(nameOrUrl: string): string | null {
 /**
  * מביא HTML של עמוד תוצאות (pagination)
  */
-async function fetchPageHtml(page: number): Promise<string> {
+async function fetchPageHtml(http: PoliteFetch, page: number): Promise<string> {
   const u = new URL(UPDATE_CATEGORY);
   u.searchParams.set("catID", "0");
   u.searchParams.set("page", String(page));
@@ -47,7 +47,7 @@ async function fetchPageHtml(page: number): Promise<string> {
   u.searchParams.set("sortdir", "DESC");
   u.searchParams.set("storeId", "0");
 
-  const res = await fetch(u.toString(), {
+  const res = await http(u.toString(), {
     headers: {
       "user-agent": "SmartCartPriceCollector/1.0",
       "accept-language": "he-IL,he;q=0.9,en;q=0.8",
@@ -59,9 +59,9 @@ async function fetchPageHtml(page: number): Promise<string> {
 }
 
 /**
- * מחלץ לינקים ל-Price*.gz בלבד (לא Promo)
+ * מחלץ לינקים ל-.gz (או .xml של Stores) מהסוגים שביקשנו בלבד (PriceFull / PromoFull / ...)
  */
-function extractPriceGzLinks(html: string): string[] {
+function extractGzLinks(html: string, fileTypes: RawFileType[]): string[] {
   const $ = cheerio.load(html);
   const links: string[] = [];
 
@@ -70,164 +70,214 @@ function extractPriceGzLinks(html: string): string[] {
     if (!href) return;
 
     const isBlob = /blob\.core\.windows\.net/i.test(href);
-    const isGz = /\.gz(\?|$)/i.test(href);
-
-    // Price בלבד, בלי Promo
-	//const isPrice = /(\/|^)Price(?:Full)?\d+/i.test(href); // Price... או PriceFull...
-	const isPriceFull = /(\/|^)PriceFull\d+/i.test(href);
-	const isPromo = /(\/|^)Promo\d+/i.test(href);
+    const isGz = /\.(gz|xml)(\?|$)/i.test(href);
 
+    // שם הקובץ נמצא ב-path לפני ה-query (SAS token)
+    const pathPart = href.split("?")[0];
 
-	if (isBlob && isGz && isPriceFull && !isPromo) {
-	  links.push(href);
-	}
-
+    if (isBlob && isGz && isFileType(pathPart, fileTypes)) {
+      links.push(href);
+    }
   });
 
   return Array.from(new Set(links));
 }
 
-type RawFileInsert = {
-  chain: string;
-  store_id: string | null;
-  file_url: string;
-  storage_path: string | null;
-  sha256: string | null;
-  status: "downloaded" | "failed" | "skipped";
-  error: string | null;
-};
-
 export async function runShufersalCollector(opts: {
   supabaseUrl: string;
   serviceRoleKey: string;
   bucket: string; // raw-prices
   maxPages?: number;
   maxDownloads?: number;
+  fileTypes?: RawFileType[]; // ברירת מחדל: PriceFull בלבד
+  concurrency?: number; // קבצים במקביל (ברירת מחדל 4)
+  ratePerHost?: number; // בקשות לשנייה לכל host (ברירת מחדל 2)
+  store?: RawFileStore; // ברירת מחדל: לפי RAW_STORE (Supabase Storage או data/)
+  repos?: Repos; // ברירת מחדל: לפי DB_BACKEND (Supabase או SQLite)
 }) {
-  const supabase = createClient(opts.supabaseUrl, opts.serviceRoleKey);
+  const supabase = supabaseFromEnv(opts.supabaseUrl, opts.serviceRoleKey);
+  const store = opts.store ?? rawFileStoreFromEnv(supabase, opts.bucket);
+  const repos = opts.repos ?? reposFromEnv(supabase);
+
+  try {
+    return await collect(opts, store, repos);
+  } finally {
+    if (!opts.repos) await repos.close();
+  }
+}
+
+async function collect(
+  opts: {
+    maxPages?: number;
+    maxDownloads?: number;
+    fileTypes?: RawFileType[];
+    concurrency?: number;
+    ratePerHost?: number;
+  },
+  store: RawFileStore,
+  repos: Repos
+) {
+  // raw_files של failed/skipped: לא מפילים את כל הריצה אם הרישום עצמו נכשל.
+  // upsert ולא insert: ניסיון חוזר של URL שנכשל מעדכן את אותה שורה
+  const recordQuietly = async (row: RawFileInsert) => {
+    try {
+      await repos.rawFiles.upsertByUrl(row);
+    } catch (e: any) {
+      console.log("[WARN] raw_files insert failed:", String(e?.message ?? e));
+    }
+  };
 
   const maxPages = opts.maxPages ?? 10;
   const maxDownloads = opts.maxDownloads ?? 50;
+  const fileTypes = opts.fileTypes ?? ["PriceFull"];
+  const concurrency = opts.concurrency ?? DEFAULT_SCHEDULER.concurrency;
+  const http = createPoliteFetch({ ratePerHost: opts.ratePerHost });
+
+  // הורדה + רישום של קובץ אחד; true אם נקלט קובץ חדש. שגיאות נרשמות ב-raw_files ולא נזרקות.
+  // prev = השורה הקיימת כשזה ניסיון חוזר של URL שנכשל
+  const collectOne = async ({ fileUrl, prev }: { fileUrl: string; prev: RawFileRecord | null }): Promise<boolean> => {
+    // Vars שנרצה גם ב-catch
+    let gzBuf: Buffer | null = null;
+    let gzSha: string | null = null;
+
+    let filename: string = `Price_${Date.now()}.gz`;
+    let storeId: string | null = null;
+    let storagePath: string | null = null;
+
+    try {
+      const res = await http(fileUrl, {
+        headers: {
+          "user-agent": "SmartCartPriceCollector/1.0",
+          "accept-language": "he-IL,he;q=0.9,en;q=0.8",
+        },
+      });
+
+      if (!res.ok) throw new Error(`Download HTTP ${res.status}`);
+
+      const arr = new Uint8Array(await res.arrayBuffer());
+      gzBuf = Buffer.from(arr);
+      gzSha = sha256(gzBuf);
+
+      // filename מהכותרת או מה-URL הסופי אחרי redirect
+      const contentDisp = res.headers.get("content-disposition") || "";
+      const cdMatch = contentDisp.match(/filename="?([^"]+)"?/i);
+
+      filename =
+        cdMatch?.[1] ??
+        (() => {
+          const finalUrl = new URL(res.url);
+          const base = finalUrl.pathname.split("/").pop();
+          return base && /\.(gz|xml)$/i.test(base) ? base : `Price_${Date.now()}.gz`;
+        })();
+
+      storeId =
+        extractStoreIdFromFilename(filename) ??
+        extractStoreIdFromFilename(res.url) ??
+        extractStoreIdFromFilename(fileUrl);
+
+      // Stores הוא קובץ ברמת הרשת, אין לו storeId
+      const isStores = (fileTypeOf(filename) ?? fileTypeOf(fileUrl.split("?")[0])) === "Stores";
+
+      // אם לא הצלחנו לזהות storeId, זה כנראה לא קובץ סניף - מדלגים
+      if (!storeId && !isStores) {
+        const row: RawFileInsert = {
+          chain: CHAIN,
+          store_id: null,
+          file_url: fileUrl,
+          storage_path: null,
+          sha256: gzSha,
+          status: "skipped",
+          error: `no storeId in filename: ${filename}`,
+        };
+        await recordQuietly(row);
+        console.log(`[SKIP] not a store price file: ${filename}`);
+        return false;
+      }
+
+      // העלאה ל-Storage
+      const now = new Date();
+      const yyyy = now.getFullYear();
+      const mm = String(now.getMonth() + 1).padStart(2, "0");
+      const dd = String(now.getDate()).padStart(2, "0");
+
+      storagePath = `${CHAIN}/${yyyy}-${mm}-${dd}/${storeId ?? "stores"}/${filename}`;
+
+      // דדופ לפי תוכן: אותו sha256 תחת URL אחר (ה-SAS token משתנה) נרשם כ-duplicate, בלי העלאה
+      const match = await matchContent(repos, CHAIN, fileUrl, gzSha);
+      const known = await recordKnownContent(repos, match, {
+        chain: CHAIN,
+        store_id: storeId,
+        file_url: fileUrl,
+        storage_path: storagePath,
+        sha256: gzSha,
+        fetched_at: now.toISOString(),
+        status: "downloaded",
+        error: null,
+      });
+      if (known) {
+        console.log(`[SAME] ${filename} ${match.kind} sha=${gzSha.slice(0, 10)}...`);
+        return false;
+      }
+
+      const contentType = isGzip(gzBuf) ? "application/gzip" : "application/xml";
+      // upsert: ניסיון חוזר באותו יום (למשל אחרי שהרישום ב-raw_files נכשל) כותב לאותו path
+      await store.put(storagePath, gzBuf, { contentType, upsert: true });
+
+      const row: RawFileInsert = {
+        chain: CHAIN,
+        store_id: storeId,
+        file_url: fileUrl,
+        storage_path: storagePath,
+        sha256: gzSha,
+        status: "downloaded",
+        error: null,
+        next_retry_at: null,
+        failed_step: null,
+      };
+
+      await repos.rawFiles.upsertByUrl(row);
+
+      console.log(`[OK] ${filename} store=${storeId ?? "-"} sha=${gzSha.slice(0, 10)}...`);
+      return true;
+    } catch (e: any) {
+      const row: RawFileInsert = {
+        chain: CHAIN,
+        store_id: storeId,
+        file_url: fileUrl,
+        storage_path: storagePath,
+        sha256: gzSha,
+        ...failureFields(prev?.attempts ?? 0, String(e?.message ?? e), "collect"),
+      };
+      await recordQuietly(row);
+      console.log(`[FAIL] store=${storeId ?? "?"} ${row.error}`);
+      return false;
+    }
+  };
 
   let downloaded = 0;
 
-  for (let page = 1; page <= maxPages; page++) {
-    const html = await fetchPageHtml(page);
-    const links = extractPriceGzLinks(html);
+  for (let page = 1; page <= maxPages && downloaded < maxDownloads; page++) {
+    const html = await fetchPageHtml(http, page);
+    const links = extractGzLinks(html, fileTypes);
 
     if (links.length === 0) break;
 
+    // דדופ: אם כבר יש לנו את אותו file_url, רק מסמנים שראינו אותו שוב ולא מורידים,
+    // חוץ מ-URL שנכשל והגיע זמן הניסיון הבא שלו (core/retry.ts)
+    let queue: { fileUrl: string; prev: RawFileRecord | null }[] = [];
     for (const fileUrl of links) {
-      if (downloaded >= maxDownloads) return { downloaded };
-
-      // דדופ: אם כבר יש לנו את אותו file_url, מדלגים
-      const { data: existing, error: existErr } = await supabase
-        .from("raw_files")
-        .select("id")
-        .eq("chain", CHAIN)
-        .eq("file_url", fileUrl)
-        .limit(1);
-
-      if (existErr) throw existErr;
-      if (existing && existing.length > 0) continue;
-
-      // Vars שנרצה גם ב-catch
-      let gzBuf: Buffer | null = null;
-      let gzSha: string | null = null;
-
-      let filename: string = `Price_${Date.now()}.gz`;
-      let storeId: string | null = null;
-      let storagePath: string | null = null;
-
-      try {
-        const res = await fetch(fileUrl, {
-          headers: {
-            "user-agent": "SmartCartPriceCollector/1.0",
-            "accept-language": "he-IL,he;q=0.9,en;q=0.8",
-          },
-        });
-
-        if (!res.ok) throw new Error(`Download HTTP ${res.status}`);
-
-        const arr = new Uint8Array(await res.arrayBuffer());
-        gzBuf = Buffer.from(arr);
-        gzSha = sha256(gzBuf);
-
-        // filename מהכותרת או מה-URL הסופי אחרי redirect
-        const contentDisp = res.headers.get("content-disposition") || "";
-        const cdMatch = contentDisp.match(/filename="?([^"]+)"?/i);
-
-        filename =
-          cdMatch?.[1] ??
-          (() => {
-            const finalUrl = new URL(res.url);
-            const base = finalUrl.pathname.split("/").pop();
-            return base && base.toLowerCase().endsWith(".gz") ? base : `Price_${Date.now()}.gz`;
-          })();
-
-        storeId =
-          extractStoreIdFromFilename(filename) ??
-          extractStoreIdFromFilename(res.url) ??
-          extractStoreIdFromFilename(fileUrl);
-
-        // אם לא הצלחנו לזהות storeId, זה כנראה לא קובץ סניף - מדלגים
-        if (!storeId) {
-          const row: RawFileInsert = {
-            chain: CHAIN,
-            store_id: null,
-            file_url: fileUrl,
-            storage_path: null,
-            sha256: gzSha,
-            status: "skipped",
-            error: `no storeId in filename: ${filename}`,
-          };
-          await supabase.from("raw_files").insert(row);
-          console.log(`[SKIP] not a store price file: ${filename}`);
-          continue;
-        }
-
-        // העלאה ל-Storage
-        const now = new Date();
-        const yyyy = now.getFullYear();
-        const mm = String(now.getMonth() + 1).padStart(2, "0");
-        const dd = String(now.getDate()).padStart(2, "0");
-
-        storagePath = `${CHAIN}/${yyyy}-${mm}-${dd}/${storeId}/${filename}`;
-
-        const up = await supabase.storage
-          .from(opts.bucket)
-          .upload(storagePath, gzBuf, { contentType: "application/gzip", upsert: false });
-
-        if (up.error) throw up.error;
-
-        const row: RawFileInsert = {
-          chain: CHAIN,
-          store_id: storeId,
-          file_url: fileUrl,
-          storage_path: storagePath,
-          sha256: gzSha,
-          status: "downloaded",
-          error: null,
-        };
-
-        const ins = await supabase.from("raw_files").insert(row);
-        if (ins.error) throw ins.error;
+      const seen = await repos.rawFiles.findByUrl(CHAIN, fileUrl);
+      if (!seen) queue.push({ fileUrl, prev: null });
+      else if (isDueForRetry(seen)) queue.push({ fileUrl, prev: seen });
+      else await repos.rawFiles.markSeen(seen.id, new Date().toISOString());
+    }
 
-        downloaded++;
-        console.log(`[OK] ${filename} store=${storeId} sha=${gzSha.slice(0, 10)}...`);
-      } catch (e: any) {
-        const row: RawFileInsert = {
-          chain: CHAIN,
-          store_id: storeId,
-          file_url: fileUrl,
-          storage_path: storagePath,
-          sha256: gzSha,
-          status: "failed",
-          error: String(e?.message ?? e),
-        };
-        await supabase.from("raw_files").insert(row);
-        console.log(`[FAIL] store=${storeId ?? "?"} ${row.error}`);
-      }
+    // כמה קבצים במקביל; כל סבב לוקח רק כמה שנשאר עד maxDownloads
+    while (queue.length && downloaded < maxDownloads) {
+      const batch = queue.slice(0, maxDownloads - downloaded);
+      queue = queue.slice(batch.length);
+      const results = await mapConcurrent(batch, concurrency, collectOne);
+      downloaded += results.filter(Boolean).length;
     }
   }
 
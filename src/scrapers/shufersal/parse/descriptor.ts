@@ -0,0 +1,20 @@
+import type { ChainDescriptor } from "../../../core/parse/price_full_parser";
+import type { PromoDescriptor } from "../../../core/parse/promo_parser";
+import type { StoresDescriptor } from "../../../core/parse/stores_parser";
+
+// Price(Full)<chain>-<sub>-<store>-YYYYMMDD-HHMMSS.gz (ארוך) או Price(Full)<chain>-<store>-YYYYMMDDHHMM.gz (קצר)
+export const SHUFERSAL_PRICE_FULL: ChainDescriptor = {
+  chain: "shufersal",
+  filenamePattern: /Price(?:Full)?\d+-(?:\d+-)?(\d{1,4})-(\d{8}-\d{6}|\d{12})\.gz/i,
+};
+
+// Promo / PromoFull באותם שני פורמטים
+export const SHUFERSAL_PROMO: PromoDescriptor = {
+  chain: "shufersal",
+  filenamePattern: /Promo(?:Full)?\d+-(?:\d+-)?(\d{1,4})-(\d{8}-\d{6}|\d{12})\.gz/i,
+};
+
+// Stores<chain>-000-<timestamp> (קובץ אחד לכל הרשת)
+export const SHUFERSAL_STORES: StoresDescriptor = {
+  chain: "shufersal",
+};